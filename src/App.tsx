@@ -1,11 +1,17 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { PreferencesProvider } from './contexts/PreferencesContext';
 import Login from './components/auth/Login';
 import Signup from './components/auth/Signup';
+import ForgotPassword from './components/auth/ForgotPassword';
+import ResetPassword from './components/auth/ResetPassword';
+import VerifyEmail from './components/auth/VerifyEmail';
 import ChatInterface from './components/chat/ChatInterface';
 import ContentManagementPage from './pages/ContentManagementPage';
+import SharedSessionPage from './pages/SharedSessionPage';
 import { validateConfig } from './config';
+import { getReturnPath } from './utils/returnPath';
 import './styles/index.css';
 
 // Validate configuration on app startup
@@ -14,6 +20,7 @@ validateConfig();
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -29,65 +36,101 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
+  // Remember where the user was (e.g. when their session expired) so login can bring them back
+  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace state={{ from: location }} />;
 };
 
-// Public Route Component (redirect to chat if already authenticated)
+// Public Route Component (redirect to chat, or the page that required login, if already authenticated)
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated } = useAuth();
-  return isAuthenticated ? <Navigate to="/chat" replace /> : <>{children}</>;
+  const location = useLocation();
+  return isAuthenticated ? <Navigate to={getReturnPath(location.state)} replace /> : <>{children}</>;
 };
 
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <Router>
-        <div className="App">
-          <Routes>
-            {/* Public routes */}
-            <Route
-              path="/login"
-              element={
-                <PublicRoute>
-                  <Login />
-                </PublicRoute>
-              }
-            />
-            <Route
-              path="/signup"
-              element={
-                <PublicRoute>
-                  <Signup />
-                </PublicRoute>
-              }
-            />
+      <PreferencesProvider>
+        <Router>
+          <div className="App">
+            <Routes>
+              {/* Public routes */}
+              <Route
+                path="/login"
+                element={
+                  <PublicRoute>
+                    <Login />
+                  </PublicRoute>
+                }
+              />
+              <Route
+                path="/signup"
+                element={
+                  <PublicRoute>
+                    <Signup />
+                  </PublicRoute>
+                }
+              />
 
-            {/* Protected routes */}
-            <Route
-              path="/chat"
-              element={
-                <ProtectedRoute>
-                  <ChatInterface />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/content-management"
-              element={
-                <ProtectedRoute>
-                  <ContentManagementPage />
-                </ProtectedRoute>
-              }
-            />
+              <Route
+                path="/forgot-password"
+                element={
+                  <PublicRoute>
+                    <ForgotPassword />
+                  </PublicRoute>
+                }
+              />
 
-            {/* Default redirect */}
-            <Route path="/" element={<Navigate to="/chat" replace />} />
+              {/* Opened from emailed links, which must work whether or not this browser is signed in */}
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
+
+              {/* Shared read-only sessions are viewable with or without an account */}
+              <Route path="/shared/:shareToken" element={<SharedSessionPage />} />
+
+              {/* Protected routes */}
+              <Route
+                path="/chat"
+                element={
+                  <ProtectedRoute>
+                    <ChatInterface />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/chat/:sessionId"
+                element={
+                  <ProtectedRoute>
+                    <ChatInterface />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/chat/:sessionId/m/:messageId"
+                element={
+                  <ProtectedRoute>
+                    <ChatInterface />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/content-management"
+                element={
+                  <ProtectedRoute>
+                    <ContentManagementPage />
+                  </ProtectedRoute>
+                }
+              />
+
+              {/* Default redirect */}
+              <Route path="/" element={<Navigate to="/chat" replace />} />
             
-            {/* Catch all - redirect to chat */}
-            <Route path="*" element={<Navigate to="/chat" replace />} />
-          </Routes>
-        </div>
-      </Router>
+              {/* Catch all - redirect to chat */}
+              <Route path="*" element={<Navigate to="/chat" replace />} />
+            </Routes>
+          </div>
+        </Router>
+      </PreferencesProvider>
     </AuthProvider>
   );
 };
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { requestPasswordReset, requestError: error, clearRequestError } = useAuth();
+
+  // Don't leave this page's error behind for the next visit
+  useEffect(() => clearRequestError, [clearRequestError]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await requestPasswordReset(email);
+      setSentTo(email);
+    } catch (error) {
+      // Error is handled by the auth context
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 px-4">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <EnvelopeIcon className="h-8 w-8 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">Forgot your password?</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Enter your email and we'll send you a link to choose a new one
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="mt-8 space-y-6 bg-white p-8 rounded-xl shadow-lg text-center">
+            <p className="text-sm text-gray-700">
+              If an account exists for <span className="font-medium">{sentTo}</span>, a reset link is on its way.
+              It may take a few minutes to arrive.
+            </p>
+            <button
+              onClick={() => setSentTo(null)}
+              className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6 bg-white p-8 rounded-xl shadow-lg" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email address
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                placeholder="Enter your email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isLoading ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          Remembered it?{' '}
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { getReturnPath } from '../../utils/returnPath';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isLoading, error, clearError } = useAuth();
+  const { login, isLoading, error, clearError, pendingVerificationEmail } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,7 +18,7 @@ const Login: React.FC = () => {
     
     try {
       await login({ email, password });
-      navigate('/chat');
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (error) {
       // Error is handled by the auth context
     }
@@ -43,6 +45,14 @@ const Login: React.FC = () => {
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
               {error}
+              {pendingVerificationEmail && (
+                <>
+                  {' '}
+                  <Link to="/verify-email" onClick={clearError} className="font-medium underline">
+                    Resend the verification email
+                  </Link>
+                </>
+              )}
             </div>
           )}
 
@@ -65,9 +75,18 @@ const Login: React.FC = () => {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link
+                  to="/forgot-password"
+                  onClick={clearError}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="mt-1 relative">
                 <input
                   id="password"
@@ -117,6 +136,7 @@ const Login: React.FC = () => {
               Don't have an account?{' '}
               <Link
                 to="/signup"
+                state={location.state}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign up here
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { EyeIcon, EyeSlashIcon, KeyIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+// Reached from the emailed link: /reset-password?token=...
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { resetPassword, requestError: error, clearRequestError } = useAuth();
+
+  // requestError is shared with the other account pages; clear it on the way out
+  useEffect(() => clearRequestError, [clearRequestError]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || password !== confirmPassword) return;
+    setIsLoading(true);
+
+    try {
+      await resetPassword(token, password);
+      setIsDone(true);
+    } catch (error) {
+      // Error is handled by the auth context
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <div className="mt-8 space-y-4 bg-white p-8 rounded-xl shadow-lg text-center">
+          <p className="text-sm text-gray-700">This reset link is incomplete. Open the link from your email again, or request a new one.</p>
+          <Link to="/forgot-password" className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200">
+            Request a new link
+          </Link>
+        </div>
+      );
+    }
+
+    if (isDone) {
+      return (
+        <div className="mt-8 space-y-4 bg-white p-8 rounded-xl shadow-lg text-center">
+          <CheckCircleIcon className="mx-auto h-10 w-10 text-green-500" />
+          <p className="text-sm text-gray-700">Your password has been changed. Sign in with your new password.</p>
+          <Link
+            to="/login"
+            className="inline-flex justify-center py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 transition-colors duration-200"
+          >
+            Sign in
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form className="mt-8 space-y-6 bg-white p-8 rounded-xl shadow-lg" onSubmit={handleSubmit}>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}{' '}
+            <Link to="/forgot-password" className="font-medium underline">
+              Request a new link
+            </Link>
+          </div>
+        )}
+
+        {password !== confirmPassword && confirmPassword && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            Passwords do not match
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              New password
+            </label>
+            <div className="mt-1 relative">
+              <input
+                id="password"
+                name="password"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                required
+                minLength={6}
+                className="block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                placeholder="Enter a new password (min. 6 characters)"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <button
+                type="button"
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? (
+                  <EyeSlashIcon className="h-5 w-5 text-gray-400" />
+                ) : (
+                  <EyeIcon className="h-5 w-5 text-gray-400" />
+                )}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+              Confirm new password
+            </label>
+            <input
+              id="confirmPassword"
+              name="confirmPassword"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              placeholder="Confirm your new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading || password !== confirmPassword}
+          className="w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isLoading ? 'Saving...' : 'Set new password'}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 px-4">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <KeyIcon className="h-8 w-8 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">Choose a new password</h2>
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { getReturnPath } from '../../utils/returnPath';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 
 const Signup: React.FC = () => {
@@ -12,6 +13,7 @@ const Signup: React.FC = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const { signup, isLoading, error, clearError } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,8 +25,8 @@ const Signup: React.FC = () => {
     }
 
     try {
-      await signup({ email, name, password });
-      navigate('/chat');
+      const signedIn = await signup({ email, name, password });
+      navigate(signedIn ? getReturnPath(location.state) : '/verify-email', { replace: true });
     } catch (error) {
       // Error is handled by the auth context
     }
@@ -178,6 +180,7 @@ const Signup: React.FC = () => {
               Already have an account?{' '}
               <Link
                 to="/login"
+                state={location.state}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign in here
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { EnvelopeIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+// Without a token: "check your inbox" after signup. With ?token=... (the emailed link): confirms the address.
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const {
+    verifyEmail,
+    resendVerification,
+    pendingVerificationEmail,
+    isAuthenticated,
+    requestError: error,
+    clearRequestError,
+  } = useAuth();
+  const [status, setStatus] = useState<VerificationStatus>('verifying');
+  const [email, setEmail] = useState(pendingVerificationEmail || '');
+  const [resent, setResent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const verifyRequestedRef = useRef(false); // tokens are single-use; never submit one twice
+
+  useEffect(() => {
+    if (!token || verifyRequestedRef.current) return;
+    verifyRequestedRef.current = true;
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch(() => setStatus('failed'));
+  }, [token, verifyEmail]);
+
+  useEffect(() => clearRequestError, [clearRequestError]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setResent(false);
+    setIsLoading(true);
+
+    try {
+      await resendVerification(email);
+      setResent(true);
+    } catch (error) {
+      // Error is handled by the auth context
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderResendForm = () => (
+    <form className="space-y-3" onSubmit={handleResend}>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm text-left">
+          {error}
+        </div>
+      )}
+      {resent && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md text-sm text-left">
+          A new verification link has been sent to {email}.
+        </div>
+      )}
+      {/* The address is only known right after signup or a blocked login */}
+      {!pendingVerificationEmail && (
+        <input
+          type="email"
+          required
+          autoComplete="email"
+          aria-label="Email address"
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          placeholder="Enter your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      )}
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-primary-600 text-sm font-medium rounded-md text-primary-600 bg-white hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+      >
+        {isLoading ? 'Sending...' : 'Resend verification email'}
+      </button>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <>
+          <p className="text-sm text-gray-700">
+            We sent a verification link to{' '}
+            {pendingVerificationEmail ? <span className="font-medium">{pendingVerificationEmail}</span> : 'your email address'}.
+            Open it to activate your account, then sign in.
+          </p>
+          <p className="text-xs text-gray-500">Can't find it? Check your spam folder or send it again.</p>
+          {renderResendForm()}
+        </>
+      );
+    }
+
+    if (status === 'verifying') {
+      return <p className="text-sm text-gray-700">Confirming your email address...</p>;
+    }
+
+    if (status === 'verified') {
+      return (
+        <>
+          <CheckCircleIcon className="mx-auto h-10 w-10 text-green-500" />
+          <p className="text-sm text-gray-700">Your email address is confirmed.</p>
+          <Link
+            to={isAuthenticated ? '/chat' : '/login'}
+            className="inline-flex justify-center py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 transition-colors duration-200"
+          >
+            {isAuthenticated ? 'Continue to chat' : 'Sign in'}
+          </Link>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <ExclamationTriangleIcon className="mx-auto h-10 w-10 text-yellow-500" />
+        <p className="text-sm text-gray-700">We couldn't confirm your email address. Request a new link below.</p>
+        {renderResendForm()}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 px-4">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <EnvelopeIcon className="h-8 w-8 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">
+            {token ? 'Email verification' : 'Check your inbox'}
+          </h2>
+        </div>
+
+        <div className="mt-8 space-y-4 bg-white p-8 rounded-xl shadow-lg text-center">
+          {renderContent()}
+        </div>
+
+        <p className="text-center text-sm text-gray-600">
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { HandThumbUpIcon, HandThumbDownIcon } from '@heroicons/react/24/outline';
+import {
+  HandThumbUpIcon as HandThumbUpSolidIcon,
+  HandThumbDownIcon as HandThumbDownSolidIcon,
+} from '@heroicons/react/24/solid';
+import { MessageFeedback } from '../../types';
+
+interface AnswerFeedbackProps {
+  feedback?: MessageFeedback;
+  disabled?: boolean;
+  onSubmit: (feedback: MessageFeedback) => void;
+}
+
+const DOWNVOTE_REASONS = ['Incorrect', 'Not what I asked', 'Outdated', 'Missing or wrong sources'];
+
+const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ feedback, disabled = false, onSubmit }) => {
+  const [showReasonForm, setShowReasonForm] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const submitDownvote = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ ...feedback, rating: 'down', reason: reason.trim() || undefined });
+    setShowReasonForm(false);
+    setReason('');
+  };
+
+  return (
+    <>
+      <span className="inline-flex items-center space-x-0.5">
+        <button
+          type="button"
+          onClick={() => onSubmit({ ...feedback, rating: 'up', reason: undefined })}
+          disabled={disabled}
+          className="p-0.5 rounded hover:bg-black/5 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Good answer"
+        >
+          {feedback?.rating === 'up'
+            ? <HandThumbUpSolidIcon className="h-3.5 w-3.5 text-primary-600" />
+            : <HandThumbUpIcon className="h-3.5 w-3.5" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowReasonForm(show => !show)}
+          disabled={disabled}
+          className="p-0.5 rounded hover:bg-black/5 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Bad answer"
+        >
+          {feedback?.rating === 'down'
+            ? <HandThumbDownSolidIcon className="h-3.5 w-3.5 text-red-500" />
+            : <HandThumbDownIcon className="h-3.5 w-3.5" />}
+        </button>
+      </span>
+
+      {/* Reason form for downvotes */}
+      {showReasonForm && (
+        <form
+          onSubmit={submitDownvote}
+          className="basis-full mt-2 p-2 bg-gray-50 border border-gray-200 rounded-md space-y-2 animate-fade-in"
+        >
+          <p className="text-xs font-medium text-gray-700">What was wrong with this answer?</p>
+          <div className="flex flex-wrap gap-1">
+            {DOWNVOTE_REASONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setReason(option)}
+                className={`
+                  px-2 py-0.5 rounded-full border text-[11px]
+                  ${reason === option
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                  }
+                `}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            placeholder="Add details (optional)"
+            className="block w-full px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowReasonForm(false)}
+              className="px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-2 py-1 text-xs font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md"
+            >
+              Send feedback
+            </button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+};
+
+export default AnswerFeedback;
@@ -1,14 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { ChatSession, User } from '../../types';
-import { Bars3Icon, UserCircleIcon, DocumentIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import { ChatSession, SearchScope, User } from '../../types';
+import { Bars3Icon, UserCircleIcon, DocumentIcon, ArrowRightOnRectangleIcon, Cog6ToothIcon, FunnelIcon, XMarkIcon, AdjustmentsHorizontalIcon, BugAntIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
+import PreferencesModal from './PreferencesModal';
+import ExportMenu from './ExportMenu';
+import ConnectionIndicator from './ConnectionIndicator';
+import { isScopeActive, normalizeScope } from '../../utils/searchScope';
+import { ExportFormat } from '../../utils/sessionExport';
 
 interface ChatHeaderProps {
   currentSession: ChatSession | null;
   user: User | null;
   onToggleSidebar: () => void;
   onNewSession: () => void;
+  onExport: (format: ExportFormat) => void;
+  canExport: boolean;
+  onScopeChange: (scope: SearchScope | null) => void;
+  onOpenSettings: () => void;
+  inspectorOpen: boolean;
+  onToggleInspector?: () => void; // omitted when the inspector is disabled
 }
 
 const ChatHeader: React.FC<ChatHeaderProps> = ({
@@ -16,8 +27,15 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
   user,
   onToggleSidebar,
   onNewSession,
+  onExport,
+  canExport,
+  onScopeChange,
+  onOpenSettings,
+  inspectorOpen,
+  onToggleInspector,
 }) => {
   const { logout } = useAuth();
+  const [showPreferences, setShowPreferences] = useState(false);
 
   const getSessionTitle = () => {
     if (!currentSession) return 'Voosh AI Assistant';
@@ -27,6 +45,53 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
     return `Chat from ${date.toLocaleDateString()}`;
   };
 
+  const scope = currentSession?.scope;
+
+  const removeFromScope = (current: SearchScope, change: Partial<SearchScope>) =>
+    onScopeChange(normalizeScope({ ...current, ...change }));
+
+  const renderScopeChips = (current: SearchScope) => {
+    const chips = [
+      ...current.sources.map(source => ({
+        key: `source-${source}`,
+        label: source,
+        onRemove: () => removeFromScope(current, { sources: current.sources.filter(s => s !== source) }),
+      })),
+      ...current.documents.map(doc => ({
+        key: `doc-${doc.id}`,
+        label: doc.title,
+        onRemove: () => removeFromScope(current, { documents: current.documents.filter(d => d.id !== doc.id) }),
+      })),
+    ];
+
+    return (
+      <div className="mt-1 flex flex-wrap items-center gap-1">
+        <FunnelIcon className="h-3.5 w-3.5 text-primary-500" title="Questions only search these" />
+        {chips.map(chip => (
+          <span
+            key={chip.key}
+            className="inline-flex items-center max-w-[12rem] pl-2 pr-1 py-0.5 rounded-full bg-primary-50 text-primary-700 text-xs"
+          >
+            <span className="truncate" title={chip.label}>{chip.label}</span>
+            <button
+              onClick={chip.onRemove}
+              className="ml-0.5 p-0.5 rounded-full hover:bg-primary-100"
+              title="Remove from search scope"
+            >
+              <XMarkIcon className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <button
+          onClick={() => onScopeChange(null)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+    );
+  };
+
   return (
     <header className="bg-white border-b border-gray-200 px-4 py-3">
       <div className="flex items-center justify-between">
@@ -39,8 +104,8 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
             <Bars3Icon className="h-5 w-5" />
           </button>
           
-          <div>
-            <h1 className="text-lg font-semibold text-gray-900">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-900 truncate" title={getSessionTitle()}>
               {getSessionTitle()}
             </h1>
             {currentSession && (
@@ -48,11 +113,41 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
                 Created {new Date(currentSession.createdAt).toLocaleString()}
               </p>
             )}
+            {isScopeActive(scope) && renderScopeChips(scope)}
           </div>
         </div>
 
         {/* Right side */}
         <div className="flex items-center space-x-4">
+          <ConnectionIndicator />
+
+          {currentSession && (
+            <button
+              onClick={onOpenSettings}
+              className={`relative p-2 rounded-md hover:bg-gray-100 ${currentSession.settings ? 'text-primary-600' : 'text-gray-500 hover:text-gray-700'}`}
+              title={currentSession.settings ? 'Chat settings (customised)' : 'Chat settings'}
+            >
+              <AdjustmentsHorizontalIcon className="h-5 w-5" />
+              {currentSession.settings && (
+                <span className="absolute top-1.5 right-1.5 h-1.5 w-1.5 rounded-full bg-primary-600" />
+              )}
+            </button>
+          )}
+
+          {currentSession && onToggleInspector && (
+            <button
+              onClick={onToggleInspector}
+              className={`hidden md:block p-2 rounded-md hover:bg-gray-100 ${inspectorOpen ? 'text-primary-600 bg-primary-50' : 'text-gray-500 hover:text-gray-700'}`}
+              title={inspectorOpen ? 'Hide retrieval inspector' : 'Show retrieval inspector'}
+            >
+              <BugAntIcon className="h-5 w-5" />
+            </button>
+          )}
+
+          {currentSession && (
+            <ExportMenu onExport={onExport} disabled={!canExport} />
+          )}
+
           {/* User info and logout */}
           <div className="relative group">
             <button className="flex items-center space-x-2 p-2 rounded-md text-gray-700 hover:bg-gray-100">
@@ -76,6 +171,13 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
                   <DocumentIcon className="mr-3 h-4 w-4 text-gray-400 group-hover:text-gray-500" />
                   Content Management
                 </Link>
+                <button
+                  onClick={() => setShowPreferences(true)}
+                  className="group flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  <Cog6ToothIcon className="mr-3 h-4 w-4 text-gray-400 group-hover:text-gray-500" />
+                  Preferences
+                </button>
                 <button
                   onClick={logout}
                   className="group flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -88,6 +190,10 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({
           </div>
         </div>
       </div>
+
+      {showPreferences && (
+        <PreferencesModal onClose={() => setShowPreferences(false)} />
+      )}
     </header>
   );
 };
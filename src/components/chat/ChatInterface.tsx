@@ -1,39 +1,108 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import axios from 'axios';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { chatAPI } from '../../services/api';
-import { ChatSession, ChatMessage, SendMessageRequest } from '../../types';
+import { authSession } from '../../services/authSession';
+import config from '../../config';
+import {
+  ChatSession,
+  ChatMessage,
+  SendMessageRequest,
+  MessageFeedback,
+  MessageSearchResult,
+  UpdateChatSessionRequest,
+  ImportChatSessionRequest,
+  SearchScope,
+  DateRange,
+  AnswerMetrics,
+} from '../../types';
 import ChatSidebar from './ChatSidebar';
 import ChatHeader from './ChatHeader';
 import MessageList from './MessageList';
 import MessageInput from './MessageInput';
-import { connectSocket, getSocket } from '../../services/socket';
+import SessionSettingsDrawer from './SessionSettingsDrawer';
+import PipelineInspector from './PipelineInspector';
+import {
+  connectSocket,
+  emitCancelGeneration,
+  onSocketReconnect,
+  requestPipelineReplay,
+} from '../../services/socket';
+import {
+  BranchSelections,
+  SiblingInfo,
+  getActiveBranch,
+  getParentKey,
+  getSibling,
+  getSiblingInfo,
+  normalizeMessageTree,
+  selectBranchTo,
+} from '../../utils/messageTree';
+import { deriveSessionTitle } from '../../utils/sessionTitle';
+import { SessionSyncEvent, broadcastSessionChange, subscribeSessionChanges } from '../../services/sessionSync';
+import { resolveDateRange } from '../../utils/dateRange';
+import { PipelineStep, TokenStats, computeAnswerMetrics, createRequestId } from '../../utils/pipelineTrace';
+import {
+  ExportFormat,
+  buildPrintableHtml,
+  downloadFile,
+  exportSessionMarkdown,
+  getExportFilename,
+  openPrintView,
+} from '../../utils/sessionExport';
+import { exportSessionJSON } from '../../utils/sessionFile';
 
-interface PipelineStep {
-  type: string;
-  ts: number;
-  info?: any;
-}
+const PIPELINE_EVENTS = ['embedding_start','embedding_done','search_start','search_results','rag_context','ai_start','ai_token','ai_done'];
+
+// Id prefix of the placeholder answer filled by ai_token until the server's message replaces it
+const STREAM_ID_PREFIX = 'stream-';
+
+const sessionPath = (sessionId: string, messageId?: string) =>
+  messageId ? `/chat/${sessionId}/m/${messageId}` : `/chat/${sessionId}`;
 
 const ChatInterface: React.FC = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]); // every message of the session, across branches
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]); // still tracked internally (debug)
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]); // shown in the retrieval inspector
+  const [traceRequest, setTraceRequest] = useState<SendMessageRequest | null>(null); // request behind pipelineSteps
+  const [showInspector, setShowInspector] = useState(false);
   const [statusMessages, setStatusMessages] = useState<string[]>([]); // human readable narrative of pipeline
   const [streaming, setStreaming] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null); // message to scroll to and highlight
+  const [showSettings, setShowSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const streamingIdRef = useRef<string | null>(null); // placeholder assistant message being filled by ai_token
+  const streamedTextRef = useRef(''); // what the placeholder holds, readable once the request is stopped
+  const streamParentIdRef = useRef<string | null>(null); // user message the placeholder answers
+  const activeRequestRef = useRef<{ requestId: string; sessionId: string } | null>(null); // question awaiting its answer
+  const unsavedIdsRef = useRef<Set<string>>(new Set()); // optimistic questions the server hasn't confirmed an id for
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const sessionsRef = useRef<ChatSession[]>([]); // latest sessions for async callbacks
+  const titleRequestedRef = useRef<Set<string>>(new Set());
+  const updateQueuesRef = useRef<Map<string, Promise<void>>>(new Map()); // pending session PATCHes, per session
+  const pipelineStepsRef = useRef<PipelineStep[]>([]); // same as pipelineSteps, readable once the response arrives
+  const tokenStatsRef = useRef<TokenStats>({ count: 0, firstTs: null });
+  const lastEventTsRef = useRef<number | null>(null); // newest pipeline event of the pending question, for replay
+  const displayedSessionIdRef = useRef<string | null>(null); // session on screen, for async callbacks
+  sessionsRef.current = sessions;
+  displayedSessionIdRef.current = currentSession?.id ?? null;
 
   const { user } = useAuth();
+  const { sessionId: routeSessionId, messageId: routeMessageId } = useParams<{ sessionId: string; messageId: string }>();
+  const navigate = useNavigate();
 
   // Load sessions on component mount
   useEffect(() => {
     loadSessions();
     // Connect socket
-    const sock = connectSocket(localStorage.getItem('token') || undefined);
+    const sock = connectSocket(authSession.getAccessToken() || undefined);
     const appendStatus = (line: string) => {
       setStatusMessages(prev => {
         if (prev[prev.length - 1] === line) return prev; // no duplicate consecutive lines
@@ -41,8 +110,60 @@ const ChatInterface: React.FC = () => {
       });
     };
 
+    const beginStreamingMessage = () => {
+      if (streamingIdRef.current || !isActiveSessionDisplayed()) return;
+      const id = `${STREAM_ID_PREFIX}${Date.now()}`;
+      streamingIdRef.current = id;
+      setMessages(prev => [...prev, {
+        id,
+        role: 'assistant',
+        content: '',
+        createdAt: new Date(),
+        parentId: streamParentIdRef.current,
+        status: 'streaming',
+      }]);
+    };
+
+    const appendStreamToken = (token: string) => {
+      if (!token) return;
+      beginStreamingMessage();
+      const id = streamingIdRef.current;
+      if (!id || !isActiveSessionDisplayed()) return;
+      streamedTextRef.current += token;
+      setMessages(prev => prev.map(m => (m.id === id ? { ...m, content: m.content + token } : m)));
+    };
+
+    // The user may have opened another chat while waiting; its messages must not receive this answer
+    const isActiveSessionDisplayed = () =>
+      !!activeRequestRef.current && activeRequestRef.current.sessionId === displayedSessionIdRef.current;
+
+    // Events belong to the pending question only if their request id matches; servers that don't
+    // echo requestId yet must at least name the session. Unattributed events may be another tab's.
+    const isForActiveRequest = (payload: any) => {
+      const active = activeRequestRef.current;
+      if (!active) return false;
+      if (payload?.requestId) return payload.requestId === active.requestId;
+      return payload?.sessionId === active.sessionId;
+    };
+
     const handleEvent = (type: string) => (payload: any) => {
-      setPipelineSteps(prev => [...prev, { type, ts: payload.ts || Date.now(), info: payload }]);
+      if (!isForActiveRequest(payload)) return;
+      if (payload?.ts) {
+        lastEventTsRef.current = Math.max(lastEventTsRef.current ?? 0, payload.ts);
+      }
+      // tokens are too frequent to record as pipeline steps
+      if (type === 'ai_token') {
+        tokenStatsRef.current.count += 1;
+        if (tokenStatsRef.current.firstTs === null) {
+          tokenStatsRef.current.firstTs = payload?.ts || Date.now();
+        }
+        appendStreamToken(payload?.token || '');
+        return;
+      }
+      // Replayed events can overlap what we already have
+      if (payload?.ts && pipelineStepsRef.current.some(s => s.type === type && s.ts === payload.ts)) return;
+      pipelineStepsRef.current = [...pipelineStepsRef.current, { type, ts: payload.ts || Date.now(), info: payload }];
+      setPipelineSteps(pipelineStepsRef.current);
       switch (type) {
         case 'embedding_start':
           appendStatus('Analyzing your question (building semantic vector)...');
@@ -64,23 +185,50 @@ const ChatInterface: React.FC = () => {
         case 'ai_start':
           appendStatus('Generating answer grounded in retrieved context...');
           setStreaming(true);
+          beginStreamingMessage();
           break;
-        case 'ai_done':
+        case 'ai_done': {
           appendStatus('Answer ready.');
           setStreaming(false);
-          // clear statuses after short delay to reduce clutter
-          setTimeout(() => setStatusMessages([]), 3000);
-          break;
+          // clear statuses after short delay to reduce clutter, unless another question has started since
+          const requestId = activeRequestRef.current?.requestId;
+          setTimeout(() => {
+            if (!activeRequestRef.current || activeRequestRef.current.requestId === requestId) {
+              setStatusMessages([]);
+            }
+          }, 3000);
+          break; }
       }
     };
-    ['embedding_start','embedding_done','search_start','search_results','rag_context','ai_start','ai_done'].forEach(evt => {
+    PIPELINE_EVENTS.forEach(evt => {
       sock.on(evt, handleEvent(evt));
     });
+    // Events emitted while we were disconnected are lost; ask for them again if a question is still pending
+    const offReconnect = onSocketReconnect(() => {
+      const active = activeRequestRef.current;
+      if (active) {
+        requestPipelineReplay(active.sessionId, active.requestId, lastEventTsRef.current);
+      }
+    });
     return () => {
-      ['embedding_start','embedding_done','search_start','search_results','rag_context','ai_start','ai_done'].forEach(evt => sock.off(evt));
+      PIPELINE_EVENTS.forEach(evt => sock.off(evt));
+      offReconnect();
     };
   }, []);
 
+  const activeMessages = useMemo(
+    () => getActiveBranch(messages, branchSelections),
+    [messages, branchSelections]
+  );
+
+  const branchInfo = useMemo(() => {
+    const info: Record<string, SiblingInfo> = {};
+    activeMessages.forEach(m => {
+      info[m.id] = getSiblingInfo(messages, m);
+    });
+    return info;
+  }, [activeMessages, messages]);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     scrollToBottom();
@@ -96,9 +244,10 @@ const ChatInterface: React.FC = () => {
       const sessionsData = await chatAPI.getSessions();
       setSessions(sessionsData);
       
-      // If there are sessions and no current session, select the first one
-      if (sessionsData.length > 0 && !currentSession) {
-        await loadSession(sessionsData[0].id);
+      // Without a session in the URL, open the first one (archived ones only as a last resort)
+      const firstSession = sessionsData.find(s => !s.archived) || sessionsData[0];
+      if (firstSession && !routeSessionId) {
+        navigate(sessionPath(firstSession.id), { replace: true });
       }
     } catch (error: any) {
       setError('Failed to load chat sessions');
@@ -108,47 +257,266 @@ const ChatInterface: React.FC = () => {
     }
   };
 
-  const loadSession = async (sessionId: string) => {
+  // Resolves with the session's messages, or null when loading failed
+  const loadSession = async (sessionId: string): Promise<ChatMessage[] | null> => {
     try {
       setIsLoading(true);
       const sessionData = await chatAPI.getSession(sessionId);
+      const sessionMessages = normalizeMessageTree(sessionData.messages || []);
       setCurrentSession(sessionData);
-      setMessages(sessionData.messages || []);
+      setMessages(sessionMessages);
+      setBranchSelections({});
+      return sessionMessages;
     } catch (error: any) {
-      setError('Failed to load chat session');
+      const status = error.response?.status;
+      setError(status === 404 || status === 403
+        ? 'That chat no longer exists or belongs to another account'
+        : 'Failed to load chat session');
       console.error('Error loading session:', error);
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Open the session containing a message and bring that message (and its branch) into view
+  const openMessage = async (sessionId: string, messageId: string) => {
+    let sessionMessages: ChatMessage[] | null = messages;
+    if (currentSession?.id !== sessionId) {
+      sessionMessages = await loadSession(sessionId);
+    }
+    if (!sessionMessages) return;
+
+    if (!sessionMessages.some(m => m.id === messageId)) {
+      setError('That message is no longer in this chat');
+      return;
+    }
+    setBranchSelections(prev => ({ ...prev, ...selectBranchTo(sessionMessages!, messageId) }));
+    setFocusedMessageId(messageId);
+  };
+
+  // The URL decides which session and message are open, so links, refresh and back/forward all work
+  const syncWithRouteRef = useRef<() => void>(() => {});
+  syncWithRouteRef.current = () => {
+    if (!routeSessionId) return;
+    if (routeMessageId) {
+      openMessage(routeSessionId, routeMessageId);
+    } else if (routeSessionId !== currentSession?.id) {
+      loadSession(routeSessionId);
+    }
+  };
+
+  useEffect(() => {
+    syncWithRouteRef.current();
+  }, [routeSessionId, routeMessageId]);
+
+  // Sessions created, changed or deleted in other tabs
+  const remoteSessionChangeRef = useRef<(event: SessionSyncEvent) => void>(() => {});
+  remoteSessionChangeRef.current = (event: SessionSyncEvent) => {
+    if (event.type === 'upserted') {
+      const { session } = event;
+      setSessions(prev => (prev.some(s => s.id === session.id)
+        ? prev.map(s => (s.id === session.id ? { ...s, ...session } : s))
+        : [session, ...prev]));
+      setCurrentSession(prev => (prev?.id === session.id ? { ...prev, ...session, messages: prev.messages } : prev));
+      return;
+    }
+
+    const remainingSessions = sessionsRef.current.filter(s => s.id !== event.sessionId);
+    setSessions(prev => prev.filter(s => s.id !== event.sessionId));
+    if (currentSession?.id === event.sessionId) {
+      setCurrentSession(null);
+      setMessages([]);
+      setBranchSelections({});
+      setError('This chat was deleted in another tab');
+      navigate(remainingSessions.length > 0 ? sessionPath(remainingSessions[0].id) : '/chat', { replace: true });
+    }
+  };
+
+  useEffect(() => {
+    return subscribeSessionChanges(event => remoteSessionChangeRef.current(event));
+  }, []);
+
+  const handleSearchResultSelect = (result: MessageSearchResult) => {
+    if (result.sessionId === routeSessionId && result.messageId === routeMessageId) {
+      openMessage(result.sessionId, result.messageId); // same URL: navigating wouldn't re-focus it
+    } else {
+      navigate(sessionPath(result.sessionId, result.messageId));
+    }
+  };
+
   const createNewSession = async (title?: string) => {
     try {
       const newSession = await chatAPI.createSession({ title });
       setSessions(prev => [newSession, ...prev]);
+      broadcastSessionChange({ type: 'upserted', session: newSession });
       setCurrentSession(newSession);
       setMessages([]);
+      setBranchSelections({});
+      navigate(sessionPath(newSession.id));
     } catch (error: any) {
       setError('Failed to create new session');
       console.error('Error creating session:', error);
     }
   };
 
+  const setShareToken = (sessionId: string, shareToken: string | null) => {
+    setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, shareToken } : s)));
+    setCurrentSession(prev => (prev?.id === sessionId ? { ...prev, shareToken } : prev));
+    const session = sessionsRef.current.find(s => s.id === sessionId);
+    if (session) {
+      broadcastSessionChange({ type: 'upserted', session: { ...session, shareToken } });
+    }
+  };
+
+  const shareSession = async (sessionId: string) => {
+    try {
+      const { shareToken } = await chatAPI.shareSession(sessionId);
+      setShareToken(sessionId, shareToken);
+    } catch (error: any) {
+      setError('Failed to create share link');
+      console.error('Error sharing session:', error);
+    }
+  };
+
+  const revokeShare = async (sessionId: string) => {
+    try {
+      await chatAPI.revokeShare(sessionId);
+      setShareToken(sessionId, null);
+    } catch (error: any) {
+      setError('Failed to revoke share link');
+      console.error('Error revoking share link:', error);
+    }
+  };
+
+  const updateScope = (scope: SearchScope | null) => {
+    if (currentSession) {
+      updateSession(currentSession.id, { scope });
+    }
+  };
+
+  const updateDateRange = (dateRange: DateRange | null) => {
+    if (currentSession) {
+      updateSession(currentSession.id, { dateRange });
+    }
+  };
+
+  // Resolves with whether the import succeeded so the import dialog knows to close
+  const importSession = async (request: ImportChatSessionRequest): Promise<boolean> => {
+    try {
+      const imported = await chatAPI.importSession(request);
+      setSessions(prev => [imported, ...prev]);
+      broadcastSessionChange({ type: 'upserted', session: imported });
+      navigate(sessionPath(imported.id));
+      return true;
+    } catch (error: any) {
+      setError('Failed to import session');
+      console.error('Error importing session:', error);
+      return false;
+    }
+  };
+
+  // Rename / pin / archive / scope / settings, applied optimistically. Updates to one session are sent
+  // one at a time so they reach the server in order; a failure rolls back only the fields it changed.
+  const updateSession = (sessionId: string, changes: UpdateChatSessionRequest): Promise<void> => {
+    const previous = sessionsRef.current.find(s => s.id === sessionId);
+    if (!previous) return Promise.resolve();
+
+    const fields = Object.keys(changes) as (keyof UpdateChatSessionRequest)[];
+    const pickFields = (source: Partial<ChatSession>) => {
+      const picked: Partial<ChatSession> = {};
+      fields.forEach(field => {
+        if (field in source) Object.assign(picked, { [field]: source[field] });
+      });
+      return picked;
+    };
+    const patchSession = (patch: Partial<ChatSession>) => {
+      setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, ...patch } : s)));
+      setCurrentSession(prev => (prev?.id === sessionId ? { ...prev, ...patch } : prev));
+    };
+
+    const before = pickFields(previous);
+    patchSession(changes);
+
+    const send = async () => {
+      try {
+        // Only the fields this update owns: the response doesn't reflect updates still queued behind it
+        const confirmed = pickFields(await chatAPI.updateSession(sessionId, changes));
+        patchSession(confirmed);
+        const latest = sessionsRef.current.find(s => s.id === sessionId);
+        if (latest) broadcastSessionChange({ type: 'upserted', session: { ...latest, ...confirmed } });
+      } catch (error: any) {
+        // Fields changed again since this update was made keep their newer value
+        const current = sessionsRef.current.find(s => s.id === sessionId);
+        const rollback: Partial<ChatSession> = {};
+        fields.forEach(field => {
+          if (current && current[field] === changes[field]) Object.assign(rollback, { [field]: before[field] });
+        });
+        patchSession(rollback);
+        setError('Failed to update session');
+        console.error('Error updating session:', error);
+      }
+    };
+
+    const queued = (updateQueuesRef.current.get(sessionId) || Promise.resolve()).then(send);
+    updateQueuesRef.current.set(sessionId, queued);
+    return queued;
+  };
+
+  // Title untitled sessions after their first answer; a title the user set in the meantime always wins
+  const autoTitleSession = async (sessionId: string, question: string) => {
+    if (titleRequestedRef.current.has(sessionId)) return;
+    titleRequestedRef.current.add(sessionId);
+
+    let title = '';
+    try {
+      const generated = await chatAPI.generateSessionTitle(sessionId);
+      title = generated.title?.trim() || '';
+    } catch (error: any) {
+      console.error('Error generating session title:', error);
+    }
+    title = title || deriveSessionTitle(question);
+
+    const session = sessionsRef.current.find(s => s.id === sessionId);
+    if (!title || !session || session.title) return;
+    await updateSession(sessionId, { title });
+  };
+
+  // Markdown and PDF follow the branch on screen; JSON keeps every branch so it can be re-imported
+  const exportSession = async (format: ExportFormat) => {
+    if (!currentSession) return;
+    try {
+      const session = await chatAPI.getSession(currentSession.id);
+      const visibleMessages = getActiveBranch(normalizeMessageTree(session.messages || []), branchSelections);
+
+      if (format === 'markdown') {
+        downloadFile(getExportFilename(session, 'md'), exportSessionMarkdown(session, visibleMessages), 'text/markdown');
+      } else if (format === 'json') {
+        downloadFile(getExportFilename(session, 'json'), exportSessionJSON(session), 'application/json');
+      } else if (!openPrintView(buildPrintableHtml(session, visibleMessages))) {
+        setError('Allow pop-ups for this site to export as PDF');
+      }
+    } catch (error: any) {
+      setError('Failed to export session');
+      console.error('Error exporting session:', error);
+    }
+  };
+
   const deleteSession = async (sessionId: string) => {
     try {
       await chatAPI.deleteSession(sessionId);
       setSessions(prev => prev.filter(s => s.id !== sessionId));
+      broadcastSessionChange({ type: 'deleted', sessionId });
       
       // If the deleted session was the current one, clear current session
       if (currentSession?.id === sessionId) {
         setCurrentSession(null);
         setMessages([]);
+        setBranchSelections({});
         
-        // Load the first available session if any
+        // Open the first available session if any; the deleted one shouldn't stay in history
         const remainingSessions = sessions.filter(s => s.id !== sessionId);
-        if (remainingSessions.length > 0) {
-          await loadSession(remainingSessions[0].id);
-        }
+        navigate(remainingSessions.length > 0 ? sessionPath(remainingSessions[0].id) : '/chat', { replace: true });
       }
     } catch (error: any) {
       setError('Failed to delete session');
@@ -161,6 +529,7 @@ const ChatInterface: React.FC = () => {
       await chatAPI.clearSession(sessionId);
       if (currentSession?.id === sessionId) {
         setMessages([]);
+        setBranchSelections({});
       }
     } catch (error: any) {
       setError('Failed to clear session');
@@ -168,52 +537,246 @@ const ChatInterface: React.FC = () => {
     }
   };
 
-  const sendMessage = async (content: string) => {
-    if (!currentSession || !content.trim()) return;
+  // Best effort: the answer is already shown, so a failure here is only logged
+  const saveMetrics = async (messageId: string, metrics: AnswerMetrics) => {
+    try {
+      await chatAPI.saveMessageMetrics(messageId, metrics);
+    } catch (error: any) {
+      console.error('Error saving answer metrics:', error);
+    }
+  };
+
+  // One question/answer round trip. New and edited questions add `userMessage` to the tree first;
+  // regenerations reuse an existing user message and only add a sibling answer.
+  const submitTurn = async (userMessage: ChatMessage, regenerate = false) => {
+    if (!currentSession) return;
 
     try {
       setIsSending(true);
       setError(null);
-
-      // Add user message to UI immediately
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'user',
-        content: content.trim(),
-        createdAt: new Date(),
-      };
-      setMessages(prev => [...prev, userMessage]);
+      if (!regenerate) {
+        unsavedIdsRef.current.add(userMessage.id);
+        setMessages(prev => [...prev, userMessage]);
+      }
+      // Drop explicit choices so the branch being created becomes the visible one
+      setBranchSelections(prev => {
+        const next = { ...prev };
+        delete next[getParentKey(userMessage)];
+        delete next[userMessage.id];
+        return next;
+      });
 
       // Send message to API
       const request: SendMessageRequest = {
-        message: content.trim(),
+        message: userMessage.content,
         sessionId: currentSession.id,
+        parentId: userMessage.parentId ?? null,
+        requestId: createRequestId(),
+        ...(regenerate ? { regenerateFromId: userMessage.id } : {}),
+        ...(currentSession.scope ? { scope: currentSession.scope } : {}),
+        ...(currentSession.dateRange ? { dateRange: resolveDateRange(currentSession.dateRange) } : {}),
+        ...(currentSession.settings ? { settings: currentSession.settings } : {}),
       };
 
-  // Reset pipeline steps and status messages for new question
-  setPipelineSteps([]);
-  setStatusMessages([]);
-  const response = await chatAPI.sendMessage(request);
-      
-      // Replace the temporary user message and add assistant response
+      // Reset pipeline steps and status messages for new question
+      pipelineStepsRef.current = [];
+      tokenStatsRef.current = { count: 0, firstTs: null };
+      lastEventTsRef.current = null;
+      setPipelineSteps([]);
+      setTraceRequest(request);
+      setStatusMessages([]);
+      streamingIdRef.current = null;
+      streamedTextRef.current = '';
+      streamParentIdRef.current = userMessage.id;
+      activeRequestRef.current = { requestId: request.requestId!, sessionId: request.sessionId };
+      abortControllerRef.current = new AbortController();
+      const response = await chatAPI.sendMessage(request, abortControllerRef.current.signal);
+
+      // The server may persist the question under its own id; re-key the optimistic copy to match
+      const userId = response.parentId || userMessage.id;
+      unsavedIdsRef.current.delete(userMessage.id);
+      const metrics = response.metrics || computeAnswerMetrics(pipelineStepsRef.current, tokenStatsRef.current) || undefined;
+      const answer: ChatMessage = {
+        ...response,
+        parentId: userId,
+        dateRange: response.dateRange ?? request.dateRange,
+        metrics,
+      };
+      const streamId = streamingIdRef.current;
+      // The server has stored the answer either way; another chat on screen picks it up when reopened
+      const stillDisplayed = displayedSessionIdRef.current === request.sessionId;
       setMessages(prev => {
-        const updatedMessages = prev.slice(0, -1); // Remove temporary message
-        return [...updatedMessages, userMessage, response];
+        if (!stillDisplayed) return prev;
+        const rekeyed = userId === userMessage.id ? prev : prev.map(m => {
+          if (m.id === userMessage.id) return { ...m, id: userId };
+          if (m.parentId === userMessage.id) return { ...m, parentId: userId };
+          return m;
+        });
+        // Swap the streamed placeholder (if any) for the final message with its context passages
+        return streamId && rekeyed.some(m => m.id === streamId)
+          ? rekeyed.map(m => (m.id === streamId ? answer : m))
+          : [...rekeyed, answer];
       });
 
+      if (metrics && !response.metrics) {
+        saveMetrics(answer.id, metrics);
+      }
+      if (!currentSession.title) {
+        autoTitleSession(currentSession.id, userMessage.content);
+      }
+
     } catch (error: any) {
+      const streamId = streamingIdRef.current;
+      const active = activeRequestRef.current;
+      if (axios.isCancel(error) && active) {
+        // Late tokens of the stopped request must not change what gets saved
+        activeRequestRef.current = null;
+        streamingIdRef.current = null;
+        if (displayedSessionIdRef.current === active.sessionId) {
+          // Stopped by the user: keep the question and whatever was streamed so far
+          setMessages(prev => prev
+            .filter(m => m.id !== streamId || m.content)
+            .map(m => (m.id === streamId ? { ...m, status: 'stopped' as const } : m)));
+        }
+        // The turn stays open until this resolves, so the next question can follow the stored answer
+        await saveStoppedAnswer(active.sessionId, active.requestId, streamId, userMessage.id, streamedTextRef.current);
+        return;
+      }
+      unsavedIdsRef.current.delete(userMessage.id);
+      if (displayedSessionIdRef.current !== currentSession.id) {
+        // Nothing of this turn is on screen any more
+        console.error('Error sending message:', error);
+        return;
+      }
+
       setError('Failed to send message');
       console.error('Error sending message:', error);
-      
-      // Remove the temporary user message on error
-      setMessages(prev => prev.slice(0, -1));
+
+      // Remove the temporary user message and any partial answer on error
+      setMessages(prev => prev.filter(m => m.id !== streamId && (regenerate || m.id !== userMessage.id)));
     } finally {
+      abortControllerRef.current = null;
+      activeRequestRef.current = null;
+      streamingIdRef.current = null;
+      streamParentIdRef.current = null;
+      setStreaming(false);
       setIsSending(false);
     }
   };
 
+  // Store a stopped answer, even an empty one stopped before the first token, so it survives a reload
+  // and later questions can follow it. The question is re-keyed too, as the server may have stored it
+  // under its own id.
+  const saveStoppedAnswer = async (
+    sessionId: string,
+    requestId: string,
+    streamId: string | null,
+    questionId: string,
+    content: string
+  ) => {
+    try {
+      const saved = await chatAPI.saveStoppedAnswer(sessionId, { requestId, content });
+      unsavedIdsRef.current.delete(questionId);
+      if (displayedSessionIdRef.current !== sessionId) return;
+      const questionServerId = saved.parentId || questionId;
+      const answer: ChatMessage = { ...saved, parentId: questionServerId, status: 'stopped' };
+      setMessages(prev => {
+        const rekeyed = prev.map(m => {
+          if (m.id === questionId) return { ...m, id: questionServerId };
+          if (m.parentId === questionId) return { ...m, parentId: questionServerId };
+          return m;
+        });
+        return streamId && rekeyed.some(m => m.id === streamId)
+          ? rekeyed.map(m => (m.id === streamId ? answer : m))
+          : [...rekeyed, answer];
+      });
+    } catch (error: any) {
+      // The question and partial answer stay on screen; sendMessage won't use them as a parent
+      console.error('Error saving stopped answer:', error);
+    }
+  };
+
+  // Placeholders and questions whose stopped answer couldn't be saved only exist on screen
+  const isSavedMessage = (message: ChatMessage) =>
+    !message.id.startsWith(STREAM_ID_PREFIX) && !unsavedIdsRef.current.has(message.id);
+
+  const sendMessage = (content: string) => {
+    if (!content.trim()) return;
+    // Follow the last message the server knows
+    const lastMessage = [...activeMessages].reverse().find(isSavedMessage);
+    submitTurn({
+      id: Date.now().toString(),
+      role: 'user',
+      content: content.trim(),
+      createdAt: new Date(),
+      parentId: lastMessage ? lastMessage.id : null,
+    });
+  };
+
+  const regenerateMessage = (messageId: string) => {
+    const answer = messages.find(m => m.id === messageId);
+    const question = answer && messages.find(m => m.id === answer.parentId);
+    if (!question) return;
+    submitTurn(question, true);
+  };
+
+  // Editing never overwrites history: the new question becomes a sibling of the original
+  const editMessage = (messageId: string, content: string) => {
+    const original = messages.find(m => m.id === messageId);
+    if (!original || !content.trim()) return;
+    submitTurn({
+      id: Date.now().toString(),
+      role: 'user',
+      content: content.trim(),
+      createdAt: new Date(),
+      parentId: original.parentId ?? null,
+    });
+  };
+
+  const switchBranch = (messageId: string, offset: number) => {
+    const message = messages.find(m => m.id === messageId);
+    const sibling = message && getSibling(messages, message, offset);
+    if (!message || !sibling) return;
+    setBranchSelections(prev => ({ ...prev, [getParentKey(message)]: sibling.id }));
+  };
+
+  const submitFeedback = async (messageId: string, feedback: MessageFeedback) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!currentSession || !message) return;
+
+    const previous = message.feedback;
+    const applyFeedback = (value?: MessageFeedback) => {
+      setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, feedback: value } : m)));
+    };
+
+    // Optimistic update, rolled back if the request fails
+    applyFeedback(feedback);
+    try {
+      await chatAPI.submitFeedback(messageId, {
+        sessionId: currentSession.id,
+        rating: feedback.rating,
+        reason: feedback.reason,
+        irrelevantPassages: feedback.irrelevantPassages,
+      });
+    } catch (error: any) {
+      applyFeedback(previous);
+      setError('Failed to send feedback');
+      console.error('Error sending feedback:', error);
+    }
+  };
+
+  const stopGeneration = () => {
+    if (!abortControllerRef.current) return;
+    const active = activeRequestRef.current;
+    abortControllerRef.current.abort();
+    if (active) {
+      emitCancelGeneration(active.sessionId, active.requestId);
+    }
+    setStatusMessages([]);
+  };
+
   const handleSessionSelect = (session: ChatSession) => {
-    loadSession(session.id);
+    navigate(sessionPath(session.id));
   };
 
   return (
@@ -226,6 +789,11 @@ const ChatInterface: React.FC = () => {
         onNewSession={() => createNewSession()}
         onDeleteSession={deleteSession}
         onClearSession={clearSession}
+        onUpdateSession={updateSession}
+        onSearchResultSelect={handleSearchResultSelect}
+        onImportSession={importSession}
+        onShareSession={shareSession}
+        onRevokeShare={revokeShare}
         isOpen={sidebarOpen}
         onToggle={() => setSidebarOpen(!sidebarOpen)}
       />
@@ -238,6 +806,12 @@ const ChatInterface: React.FC = () => {
           user={user}
           onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
           onNewSession={() => createNewSession()}
+          onExport={exportSession}
+          canExport={messages.length > 0 && !isSending}
+          onScopeChange={updateScope}
+          onOpenSettings={() => setShowSettings(true)}
+          inspectorOpen={showInspector}
+          onToggleInspector={config.ENABLE_PIPELINE_INSPECTOR ? () => setShowInspector(!showInspector) : undefined}
         />
 
         {/* Error Message */}
@@ -270,11 +844,18 @@ const ChatInterface: React.FC = () => {
         <div className="flex-1 overflow-hidden">
           {currentSession ? (
             <MessageList 
-              messages={messages} 
+              messages={activeMessages} 
               isLoading={isLoading}
               isSending={isSending}
               statusMessages={statusMessages}
               streaming={streaming}
+              branchInfo={branchInfo}
+              onRegenerate={regenerateMessage}
+              onEditMessage={editMessage}
+              onSwitchBranch={switchBranch}
+              onFeedback={submitFeedback}
+              focusedMessageId={focusedMessageId}
+              onMessageFocused={() => setFocusedMessageId(null)}
             />
           ) : (
             <div className="flex items-center justify-center h-full">
@@ -304,14 +885,38 @@ const ChatInterface: React.FC = () => {
         {currentSession && (
           <MessageInput
             onSendMessage={sendMessage}
+            onStop={stopGeneration}
+            isGenerating={isSending}
             disabled={isSending}
             placeholder="Ask me about the latest news..."
+            scope={currentSession.scope}
+            onScopeChange={updateScope}
+            dateRange={currentSession.dateRange}
+            onDateRangeChange={updateDateRange}
           />
         )}
 
         {/* Scroll anchor */}
         <div ref={messagesEndRef} />
       </div>
+
+      {config.ENABLE_PIPELINE_INSPECTOR && showInspector && (
+        <PipelineInspector
+          steps={pipelineSteps}
+          request={traceRequest}
+          isRunning={isSending}
+          onClose={() => setShowInspector(false)}
+        />
+      )}
+
+      {showSettings && currentSession && (
+        <SessionSettingsDrawer
+          key={currentSession.id}
+          settings={currentSession.settings}
+          onSave={(settings) => updateSession(currentSession.id, { settings })}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 };
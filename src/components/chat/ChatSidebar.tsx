@@ -1,12 +1,16 @@
-import React from 'react';
-import { ChatSession } from '../../types';
+import React, { useState } from 'react';
+import { ChatSession, ImportChatSessionRequest, MessageSearchResult, UpdateChatSessionRequest } from '../../types';
 import { 
   PlusIcon, 
   ChatBubbleLeftIcon, 
-  TrashIcon, 
   XMarkIcon,
-  Bars3Icon 
+  ChevronRightIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
+import SidebarSearch, { isSearchActive } from './SidebarSearch';
+import SessionListItem from './SessionListItem';
+import ImportSessionModal from './ImportSessionModal';
+import ShareSessionModal from './ShareSessionModal';
 
 interface ChatSidebarProps {
   sessions: ChatSession[];
@@ -15,6 +19,11 @@ interface ChatSidebarProps {
   onNewSession: () => void;
   onDeleteSession: (sessionId: string) => void;
   onClearSession: (sessionId: string) => void;
+  onUpdateSession: (sessionId: string, changes: UpdateChatSessionRequest) => void;
+  onSearchResultSelect: (result: MessageSearchResult) => void;
+  onImportSession: (request: ImportChatSessionRequest) => Promise<boolean>;
+  onShareSession: (sessionId: string) => Promise<void>;
+  onRevokeShare: (sessionId: string) => Promise<void>;
   isOpen: boolean;
   onToggle: () => void;
 }
@@ -26,9 +35,19 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
   onNewSession,
   onDeleteSession,
   onClearSession,
+  onUpdateSession,
+  onSearchResultSelect,
+  onImportSession,
+  onShareSession,
+  onRevokeShare,
   isOpen,
   onToggle,
 }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [sharingSessionId, setSharingSessionId] = useState<string | null>(null);
+
   const formatDate = (date: Date) => {
     const now = new Date();
     const sessionDate = new Date(date);
@@ -42,14 +61,34 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
   };
 
   const getSessionTitle = (session: ChatSession) => {
-    if (session.title) {
-      const base = session.title.endsWith('...') ? session.title.slice(0, -3) : session.title;
-      if (base.length > 8) return base.slice(0,8) + '...';
-      return base;
-    }
+    if (session.title) return session.title;
     return `Chat from ${formatDate(session.createdAt)}`;
   };
 
+  // Pinned sessions first; the original (most recent first) order is kept within each group
+  const activeSessions = sessions.filter(s => !s.archived);
+  const visibleSessions = [
+    ...activeSessions.filter(s => s.pinned),
+    ...activeSessions.filter(s => !s.pinned),
+  ];
+  const archivedSessions = sessions.filter(s => s.archived);
+  const sharingSession = sessions.find(s => s.id === sharingSessionId);
+
+  const renderSession = (session: ChatSession) => (
+    <SessionListItem
+      key={session.id}
+      session={session}
+      isActive={currentSession?.id === session.id}
+      title={getSessionTitle(session)}
+      subtitle={formatDate(session.updatedAt)}
+      onSelect={() => onSessionSelect(session)}
+      onUpdate={(changes) => onUpdateSession(session.id, changes)}
+      onShare={() => setSharingSessionId(session.id)}
+      onClear={() => onClearSession(session.id)}
+      onDelete={() => onDeleteSession(session.id)}
+    />
+  );
+
   return (
     <>
       {/* Mobile overlay */}
@@ -79,18 +118,33 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
             </button>
           </div>
           
-          <button
-            onClick={onNewSession}
-            className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors duration-200"
-          >
-            <PlusIcon className="h-4 w-4 mr-2" />
-            New Chat
-          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={onNewSession}
+              className="flex-1 flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors duration-200"
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              New Chat
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              title="Import chat from JSON"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4" />
+            </button>
+          </div>
+
+          <SidebarSearch
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            onResultSelect={onSearchResultSelect}
+          />
         </div>
 
         {/* Sessions List */}
         <div className="flex-1 overflow-y-auto">
-          {sessions.length === 0 ? (
+          {isSearchActive(searchQuery) ? null : visibleSessions.length === 0 && archivedSessions.length === 0 ? (
             <div className="p-4 text-center text-gray-500">
               <ChatBubbleLeftIcon className="h-12 w-12 mx-auto mb-2 text-gray-400" />
               <p className="text-sm">No chat sessions yet</p>
@@ -98,59 +152,25 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
             </div>
           ) : (
             <div className="p-2 space-y-2">
-              {sessions.map((session) => (
-                <div
-                  key={session.id}
-                  className={`
-                    group relative rounded-lg p-3 cursor-pointer transition-colors duration-200
-                    ${currentSession?.id === session.id 
-                      ? 'bg-primary-50 border border-primary-200' 
-                      : 'hover:bg-gray-50'
-                    }
-                  `}
-                  onClick={() => onSessionSelect(session)}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <h3 className={`
-                        text-sm font-medium truncate
-                        ${currentSession?.id === session.id 
-                          ? 'text-primary-700' 
-                          : 'text-gray-900'
-                        }
-                      `} title={session.title || ''}>
-                        {getSessionTitle(session)}
-                      </h3>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {formatDate(session.updatedAt)}
-                      </p>
-                    </div>
-                    
-                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onClearSession(session.id);
-                        }}
-                        className="p-1 rounded text-gray-400 hover:text-yellow-600 hover:bg-yellow-50"
-                        title="Clear messages"
-                      >
-                        <XMarkIcon className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDeleteSession(session.id);
-                        }}
-                        className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
-                        title="Delete session"
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                      </button>
+              {visibleSessions.map(renderSession)}
+
+              {/* Archived sessions */}
+              {archivedSessions.length > 0 && (
+                <div className="pt-2 border-t border-gray-100">
+                  <button
+                    onClick={() => setShowArchived(show => !show)}
+                    className="flex items-center w-full px-2 py-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+                  >
+                    <ChevronRightIcon className={`h-3 w-3 mr-1 transition-transform ${showArchived ? 'rotate-90' : ''}`} />
+                    Archived ({archivedSessions.length})
+                  </button>
+                  {showArchived && (
+                    <div className="mt-2 space-y-2">
+                      {archivedSessions.map(renderSession)}
                     </div>
-                  </div>
+                  )}
                 </div>
-              ))}
+              )}
             </div>
           )}
         </div>
@@ -162,6 +182,23 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
           </div>
         </div>
       </div>
+
+      {showImport && (
+        <ImportSessionModal
+          onImport={onImportSession}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {sharingSession && (
+        <ShareSessionModal
+          session={sharingSession}
+          title={getSessionTitle(sharingSession)}
+          onShare={() => onShareSession(sharingSession.id)}
+          onRevoke={() => onRevokeShare(sharingSession.id)}
+          onClose={() => setSharingSessionId(null)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { ContextPassage } from '../../types';
+
+interface CitationMarkerProps {
+  number: number;
+  passage: ContextPassage;
+  onSelect?: () => void;
+}
+
+const CitationMarker: React.FC<CitationMarkerProps> = ({ number, passage, onSelect }) => {
+  const [showPreview, setShowPreview] = useState(false);
+
+  return (
+    <sup
+      className="relative mx-0.5"
+      onMouseEnter={() => setShowPreview(true)}
+      onMouseLeave={() => setShowPreview(false)}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        onFocus={() => setShowPreview(true)}
+        onBlur={() => setShowPreview(false)}
+        className="inline-flex items-center justify-center min-w-[1.1rem] h-4 px-1 rounded bg-primary-100 text-primary-700 text-[10px] font-semibold hover:bg-primary-200 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        aria-label={`Source ${number}: ${passage.title}`}
+      >
+        {number}
+      </button>
+
+      {/* Hover preview */}
+      {showPreview && (
+        <span className="absolute left-1/2 bottom-full mb-1 z-20 block w-64 -translate-x-1/2 p-2 bg-white border border-gray-200 rounded-md shadow-lg text-left animate-fade-in">
+          <span className="block text-xs font-medium text-gray-800 truncate">{passage.title}</span>
+          <span className="block text-[10px] text-gray-500">{passage.source}</span>
+          {passage.excerpt && (
+            <span className="mt-1 block text-[11px] leading-snug font-normal text-gray-600 line-clamp-4">{passage.excerpt}</span>
+          )}
+        </span>
+      )}
+    </sup>
+  );
+};
+
+export default CitationMarker;
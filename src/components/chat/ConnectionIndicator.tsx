@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { SocketStatus, getSocketStatus, reconnectSocket, subscribeSocketStatus } from '../../services/socket';
+
+const STATUS_STYLES: Record<SocketStatus, { dot: string; label: string; description: string }> = {
+  connected: { dot: 'bg-green-500', label: 'Live', description: 'Live progress updates are connected' },
+  reconnecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Reconnecting...', description: 'Live progress updates are reconnecting; answers still arrive' },
+  offline: { dot: 'bg-red-500', label: 'Offline', description: 'Live progress updates are unavailable; answers still arrive' },
+};
+
+const ConnectionIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SocketStatus>(getSocketStatus());
+
+  useEffect(() => {
+    setStatus(getSocketStatus());
+    return subscribeSocketStatus(setStatus);
+  }, []);
+
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="flex items-center text-xs text-gray-500" title={style.description}>
+      <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+      {/* Stay quiet while connected; only degraded states need words */}
+      {status !== 'connected' && <span className="hidden sm:block ml-1.5">{style.label}</span>}
+      {status === 'offline' && (
+        <button
+          onClick={reconnectSocket}
+          className="ml-2 font-medium text-primary-600 hover:text-primary-700"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionIndicator;
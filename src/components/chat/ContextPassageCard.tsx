@@ -0,0 +1,80 @@
+import React from 'react';
+import { ContextPassage } from '../../types';
+import { isWebUrl } from '../../utils/passages';
+
+interface ContextPassageCardProps {
+  id: string;
+  passage: ContextPassage;
+  number: number; // 1-based, matches the [n] citation markers in the answer
+  highlighted?: boolean;
+  flaggedIrrelevant?: boolean;
+  onToggleIrrelevant?: () => void;
+}
+
+const ContextPassageCard: React.FC<ContextPassageCardProps> = ({
+  id,
+  passage,
+  number,
+  highlighted = false,
+  flaggedIrrelevant = false,
+  onToggleIrrelevant,
+}) => {
+  const score = passage.score ?? 0;
+  const barWidth = Math.min(100, Math.max(5, Math.round(score * 100)));
+
+  return (
+    <div
+      id={id}
+      className={`
+        bg-gray-50 rounded p-2 border transition-colors duration-300
+        ${highlighted ? 'border-primary-400 ring-2 ring-primary-200 bg-primary-50' : 'border-gray-100'}
+        ${flaggedIrrelevant ? 'opacity-60' : ''}
+      `}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <span className="text-[10px] font-semibold text-primary-700 bg-primary-100 rounded px-1 shrink-0">{number}</span>
+        <div className="flex-1 min-w-0">
+          <span className="text-xs font-medium text-gray-700 block truncate" title={passage.title}>{passage.title}</span>
+          {passage.publishedAt && (
+            <span className="text-[10px] text-gray-500 block">
+              Published {new Date(passage.publishedAt).toLocaleDateString()}
+            </span>
+          )}
+          <div className="mt-1 h-1.5 w-full bg-gray-200 rounded overflow-hidden">
+            <div style={{ width: `${barWidth}%` }} className="h-full bg-primary-500"></div>
+          </div>
+        </div>
+        {isWebUrl(passage.url) && (
+          <a
+            href={passage.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-[10px] text-primary-600 hover:text-primary-700 shrink-0"
+          >Open</a>
+        )}
+        {onToggleIrrelevant && (
+          <button
+            type="button"
+            onClick={onToggleIrrelevant}
+            className={`text-[10px] shrink-0 ${flaggedIrrelevant ? 'text-red-600 font-medium' : 'text-gray-400 hover:text-red-600'}`}
+            title={flaggedIrrelevant ? 'Undo "not relevant"' : 'Flag this passage as not relevant'}
+          >
+            {flaggedIrrelevant ? 'Flagged' : 'Not relevant'}
+          </button>
+        )}
+      </div>
+      {passage.excerpt && (
+        <p className="mt-1 text-[11px] leading-snug text-gray-600 line-clamp-4" title={passage.excerpt}>{passage.excerpt}</p>
+      )}
+      {passage.matchedTerms && passage.matchedTerms.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {passage.matchedTerms.map(term => (
+            <span key={term} className="bg-yellow-100 text-yellow-800 px-1 rounded text-[10px]">{term}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextPassageCard;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { DateRange } from '../../types';
+import { DATE_RANGE_PRESETS, customDateRange, formatDateRange, toDateInputValue } from '../../utils/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRange | null;
+  onChange: (range: DateRange | null) => void;
+  disabled?: boolean;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showCustom, setShowCustom] = useState(value?.preset === 'custom');
+  const [fromDate, setFromDate] = useState(toDateInputValue(value?.preset === 'custom' ? value.from : undefined));
+  const [toDate, setToDate] = useState(toDateInputValue(value?.preset === 'custom' ? value.to : undefined));
+
+  const selectPreset = (range: DateRange | null) => {
+    setShowCustom(false);
+    onChange(range);
+    setIsOpen(false);
+  };
+
+  const applyCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(customDateRange(fromDate, toDate));
+    setIsOpen(false);
+  };
+
+  const optionClass = (active: boolean) => `
+    w-full text-left px-4 py-2 text-sm hover:bg-gray-100
+    ${active ? 'text-primary-700 font-medium' : 'text-gray-700'}
+  `;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`
+          flex items-center p-3 rounded-lg border shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed
+          ${value
+            ? 'border-primary-300 bg-primary-50 text-primary-600'
+            : 'border-gray-300 text-gray-400 hover:text-gray-600'
+          }
+        `}
+        title={value ? `Published: ${formatDateRange(value)}` : 'Limit search by publication date'}
+      >
+        <CalendarDaysIcon className="h-5 w-5" />
+        {value && (
+          <span className="hidden md:block ml-1 text-xs font-medium whitespace-nowrap">{formatDateRange(value)}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 bottom-full mb-2 w-64 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-20 py-1">
+            <div className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Published</div>
+            <button type="button" onClick={() => selectPreset(null)} className={optionClass(!value && !showCustom)}>
+              Any time
+            </button>
+            {DATE_RANGE_PRESETS.map(preset => (
+              <button
+                key={preset.value}
+                type="button"
+                onClick={() => selectPreset({ preset: preset.value })}
+                className={optionClass(value?.preset === preset.value && !showCustom)}
+              >
+                {preset.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setShowCustom(true)}
+              className={optionClass(showCustom)}
+            >
+              Custom range...
+            </button>
+
+            {showCustom && (
+              <form onSubmit={applyCustom} className="px-4 py-2 border-t border-gray-100 space-y-2">
+                <label className="block text-xs text-gray-600">
+                  From
+                  <input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="mt-1 block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </label>
+                <label className="block text-xs text-gray-600">
+                  To
+                  <input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="mt-1 block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </label>
+                <button
+                  type="submit"
+                  disabled={!fromDate && !toDate}
+                  className="w-full px-3 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Apply
+                </button>
+              </form>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,85 @@
+import React, { useState, useRef } from 'react';
+import { ArrowDownTrayIcon, DocumentTextIcon, PrinterIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
+import { ExportFormat } from '../../utils/sessionExport';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; icon: typeof DocumentTextIcon }[] = [
+  { format: 'markdown', label: 'Markdown (.md)', icon: DocumentTextIcon },
+  { format: 'pdf', label: 'PDF (print)', icon: PrinterIcon },
+  { format: 'json', label: 'JSON (.json)', icon: CodeBracketIcon },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && isOpen) {
+      buttonRef.current?.focus();
+      setIsOpen(false);
+    }
+  };
+
+  // Close when keyboard focus moves out of the menu
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOpen(false);
+  };
+
+  const selectFormat = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div className="relative" onKeyDown={handleKeyDown} onBlur={handleBlur}>
+      <button
+        ref={buttonRef}
+        onClick={() => setIsOpen(true)}
+        onFocus={() => setIsOpen(true)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen && !disabled}
+        className="flex items-center space-x-1 p-2 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Export chat"
+      >
+        <ArrowDownTrayIcon className="h-5 w-5" />
+        <span className="hidden md:block text-sm font-medium">Export</span>
+      </button>
+
+      {isOpen && !disabled && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          {/* Keep focus where it is on mouse down, so the blur handler can't close the menu before the click lands */}
+          <div
+            role="menu"
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-20"
+          >
+            <div className="py-1">
+              {OPTIONS.map(option => {
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.format}
+                    role="menuitem"
+                    onClick={() => selectFormat(option.format)}
+                    className="group flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:bg-gray-100 focus:outline-none"
+                  >
+                    <Icon className="mr-3 h-4 w-4 text-gray-400 group-hover:text-gray-500" />
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
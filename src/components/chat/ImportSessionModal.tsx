@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ArrowUpTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ImportChatSessionRequest } from '../../types';
+import { SessionImportResult, parseSessionImport } from '../../utils/sessionImport';
+
+interface ImportSessionModalProps {
+  onImport: (request: ImportChatSessionRequest) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ImportSessionModal: React.FC<ImportSessionModalProps> = ({ onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<SessionImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setResult(parseSessionImport(await file.text()));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setResult({ request: null, error: 'The file could not be read', skipped: [] });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result?.request) return;
+    setIsImporting(true);
+    const imported = await onImport(result.request);
+    setIsImporting(false);
+    if (imported) onClose();
+  };
+
+  const messageCount = result?.request?.messages.length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Import chat</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Choose a JSON file exported from a chat. It is added as a new chat you can review or continue.
+          </p>
+
+          <label className="flex items-center justify-center w-full px-4 py-6 border-2 border-dashed border-gray-300 rounded-md cursor-pointer hover:border-primary-400">
+            <ArrowUpTrayIcon className="h-5 w-5 mr-2 text-gray-400" />
+            <span className="text-sm text-gray-700 truncate">{fileName || 'Select a .json file'}</span>
+            <input type="file" accept=".json,application/json" onChange={handleFileChange} className="sr-only" />
+          </label>
+
+          {result?.error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+              {result.error}
+            </div>
+          )}
+
+          {result?.request && (
+            <div className="text-sm text-gray-700">
+              <p>
+                <span className="font-medium">{result.request.title || 'Untitled chat'}</span>
+                {' · '}{messageCount} message{messageCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          )}
+
+          {result && result.skipped.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+              <div className="flex items-center text-sm font-medium text-yellow-800">
+                <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+                {result.skipped.length} malformed entr{result.skipped.length === 1 ? 'y' : 'ies'} will be left out
+              </div>
+              <ul className="mt-2 max-h-32 overflow-y-auto custom-scrollbar list-disc list-inside text-xs text-yellow-800 space-y-0.5">
+                {result.skipped.map((problem, index) => (
+                  <li key={index}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!result?.request || isImporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportSessionModal;
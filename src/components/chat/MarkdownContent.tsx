@@ -0,0 +1,84 @@
+import React, { useMemo, useRef, useState } from 'react';
+import Markdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { CheckIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import 'highlight.js/styles/github.css';
+import { ContextPassage } from '../../types';
+import { parseCitationHref, remarkCitations } from '../../utils/citations';
+import CitationMarker from './CitationMarker';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  citations?: ContextPassage[]; // passages that [n] markers refer to, in order
+  onCitationClick?: (index: number) => void; // 0-based passage index
+}
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent || '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        onClick={copyCode}
+        className="absolute top-2 right-2 p-1 rounded bg-white/80 text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity duration-200"
+        title={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <CheckIcon className="h-4 w-4 text-green-600" /> : <ClipboardDocumentIcon className="h-4 w-4" />}
+      </button>
+      <pre ref={preRef} {...props}>{children}</pre>
+    </div>
+  );
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className = '', citations = [], onCitationClick }) => {
+  // Raw HTML in the model output is never rendered: react-markdown escapes it unless rehype-raw is added
+  const components = useMemo<Components>(() => ({
+    pre: ({ node, ...props }) => <CodeBlock {...props} />,
+    table: ({ node, ...props }) => (
+      <div className="overflow-x-auto custom-scrollbar">
+        <table {...props} />
+      </div>
+    ),
+    a: ({ node, children, ...props }) => {
+      const citation = parseCitationHref(props.href);
+      if (citation !== null && citations[citation - 1]) {
+        return (
+          <CitationMarker
+            number={citation}
+            passage={citations[citation - 1]}
+            onSelect={onCitationClick ? () => onCitationClick(citation - 1) : undefined}
+          />
+        );
+      }
+      return <a {...props} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+  }), [citations, onCitationClick]);
+
+  return (
+    <div className={`chat-message markdown-body text-sm leading-relaxed ${className}`}>
+      <Markdown
+        remarkPlugins={[remarkGfm, [remarkCitations, { passageCount: citations.length }]]}
+        rehypePlugins={[rehypeHighlight]}
+        components={components}
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
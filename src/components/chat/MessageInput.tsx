@@ -1,16 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { PaperAirplaneIcon, StopIcon } from '@heroicons/react/24/outline';
+import { DateRange, SearchScope } from '../../types';
+import ScopePicker from './ScopePicker';
+import DateRangePicker from './DateRangePicker';
 
 interface MessageInputProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void;
+  isGenerating?: boolean; // swaps the send button for a stop button
   disabled?: boolean;
   placeholder?: string;
+  scope?: SearchScope | null;
+  onScopeChange?: (scope: SearchScope | null) => void; // shows the source/document picker when set
+  dateRange?: DateRange | null;
+  onDateRangeChange?: (range: DateRange | null) => void; // shows the publication date picker when set
 }
 
 const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
+  onStop,
+  isGenerating = false,
   disabled = false,
   placeholder = "Type your message...",
+  scope,
+  onScopeChange,
+  dateRange = null,
+  onDateRangeChange,
 }) => {
   const [message, setMessage] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -45,6 +60,12 @@ const MessageInput: React.FC<MessageInputProps> = ({
   return (
     <div className="border-t border-gray-200 bg-white px-4 py-4">
       <form onSubmit={handleSubmit} className="flex items-end space-x-3">
+        {onScopeChange && (
+          <ScopePicker scope={scope} onChange={onScopeChange} disabled={isGenerating} />
+        )}
+        {onDateRangeChange && (
+          <DateRangePicker value={dateRange} onChange={onDateRangeChange} disabled={isGenerating} />
+        )}
         <div className="flex-1 relative">
           <textarea
             ref={textareaRef}
@@ -58,14 +79,25 @@ const MessageInput: React.FC<MessageInputProps> = ({
             style={{ minHeight: '48px', maxHeight: '120px' }}
           />
           
-          {/* Send button inside textarea */}
-          <button
-            type="submit"
-            disabled={disabled || !message.trim()}
-            className="absolute right-2 bottom-2 p-2 rounded-md text-gray-400 hover:text-primary-600 hover:bg-primary-50 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-400 disabled:hover:bg-transparent transition-colors duration-200"
-          >
-            <PaperAirplaneIcon className="h-5 w-5" />
-          </button>
+          {/* Send / stop button inside textarea */}
+          {isGenerating && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="absolute right-2 bottom-2 p-2 rounded-md text-red-500 hover:text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors duration-200"
+              title="Stop generating"
+            >
+              <StopIcon className="h-5 w-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={disabled || !message.trim()}
+              className="absolute right-2 bottom-2 p-2 rounded-md text-gray-400 hover:text-primary-600 hover:bg-primary-50 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-400 disabled:hover:bg-transparent transition-colors duration-200"
+            >
+              <PaperAirplaneIcon className="h-5 w-5" />
+            </button>
+          )}
         </div>
       </form>
       
@@ -1,5 +1,15 @@
 import React from 'react';
-import { ChatMessage } from '../../types';
+import { ArrowPathIcon, CalendarDaysIcon, ClockIcon, ChevronLeftIcon, ChevronRightIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import { ChatMessage, ContextPassage, MessageFeedback } from '../../types';
+import { SiblingInfo } from '../../utils/messageTree';
+import { formatDateRange } from '../../utils/dateRange';
+import { formatDuration } from '../../utils/pipelineTrace';
+import { getPassageKey } from '../../utils/passages';
+import { usePreferences } from '../../contexts/PreferencesContext';
+import { preferencesStorage } from '../../services/preferences';
+import MarkdownContent from './MarkdownContent';
+import ContextPassageCard from './ContextPassageCard';
+import AnswerFeedback from './AnswerFeedback';
 
 interface MessageListProps {
   messages: ChatMessage[];
@@ -7,14 +17,194 @@ interface MessageListProps {
   isSending: boolean;
   statusMessages?: string[]; // narrative of pipeline status
   streaming?: boolean; // whether model is currently streaming answer
+  branchInfo?: Record<string, SiblingInfo>; // position of each message among its siblings
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  onFeedback?: (messageId: string, feedback: MessageFeedback) => void;
+  focusedMessageId?: string | null; // scrolled into view and highlighted once rendered
+  onMessageFocused?: () => void;
+  readOnly?: boolean; // shared links: no editing, regenerating, branch switching or feedback
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages, isLoading, isSending, statusMessages = [], streaming }) => {
-  const [showSources, setShowSources] = React.useState(true);
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  isLoading,
+  isSending,
+  statusMessages = [],
+  streaming,
+  branchInfo = {},
+  onRegenerate: regenerateHandler,
+  onEditMessage: editHandler,
+  onSwitchBranch: switchBranchHandler,
+  onFeedback: feedbackHandler,
+  focusedMessageId,
+  onMessageFocused,
+  readOnly = false,
+}) => {
+  const onRegenerate = readOnly ? undefined : regenerateHandler;
+  const onEditMessage = readOnly ? undefined : editHandler;
+  const onSwitchBranch = readOnly ? undefined : switchBranchHandler;
+  const onFeedback = readOnly ? undefined : feedbackHandler;
+  const { preferences } = usePreferences();
+  // Explicit per-message choices override the default from preferences and survive reloads
+  const [sourceExpansion, setSourceExpansion] = React.useState<Record<string, boolean>>(
+    () => preferencesStorage.getSourceExpansion()
+  );
+  const [showAllSources, setShowAllSources] = React.useState<Record<string, boolean>>({});
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editText, setEditText] = React.useState('');
+  const [highlightedPassage, setHighlightedPassage] = React.useState<string | null>(null);
+  const [highlightedMessage, setHighlightedMessage] = React.useState<string | null>(null);
+  const [expandedMetrics, setExpandedMetrics] = React.useState<Record<string, boolean>>({});
+
+  // Wait until the requested message is rendered (its session may still be loading)
+  React.useEffect(() => {
+    if (!focusedMessageId || isLoading) return;
+    const element = document.getElementById(`message-${focusedMessageId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessage(focusedMessageId);
+    onMessageFocused?.();
+  }, [focusedMessageId, isLoading, messages, onMessageFocused]);
+
+  React.useEffect(() => {
+    if (!highlightedMessage) return;
+    const timer = setTimeout(() => setHighlightedMessage(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessage]);
+  const hasStreamingMessage = messages.some(m => m.status === 'streaming');
   const formatTime = (date: Date) => {
     return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const lastAssistantId = [...messages].reverse().find(m => m.role === 'assistant')?.id;
+
+  const isSourcesExpanded = (messageId: string) =>
+    sourceExpansion[messageId] ?? preferences.sourceDisplay !== 'collapsed';
+
+  const setSourcesExpanded = (messageId: string, expanded: boolean) => {
+    setSourceExpansion(prev => ({ ...prev, [messageId]: expanded }));
+    preferencesStorage.setSourceExpansion(messageId, expanded);
+  };
+
+  // In 'top' mode only the best-scoring passages are listed (in citation order) until the user asks for all
+  const getVisiblePassageIndexes = (message: ChatMessage): number[] => {
+    const passages = message.contextPassages || [];
+    const indexes = passages.map((_, idx) => idx);
+    if (preferences.sourceDisplay !== 'top' || showAllSources[message.id] || passages.length <= preferences.sourceTopN) {
+      return indexes;
+    }
+    return indexes
+      .sort((a, b) => (passages[b].score ?? 0) - (passages[a].score ?? 0))
+      .slice(0, preferences.sourceTopN)
+      .sort((a, b) => a - b);
+  };
+
+  // Only answers persisted on the server can receive feedback (not streamed or stopped placeholders)
+  const canGiveFeedback = (message: ChatMessage) =>
+    !!onFeedback && message.role === 'assistant' && !message.status;
+
+  const isFlaggedIrrelevant = (message: ChatMessage, passage: ContextPassage) =>
+    (message.feedback?.irrelevantPassages || []).indexOf(getPassageKey(passage)) !== -1;
+
+  const togglePassageRelevance = (message: ChatMessage, passage: ContextPassage) => {
+    if (!onFeedback) return;
+    const key = getPassageKey(passage);
+    const flagged = message.feedback?.irrelevantPassages || [];
+    const irrelevantPassages = flagged.indexOf(key) !== -1
+      ? flagged.filter(k => k !== key)
+      : [...flagged, key];
+    onFeedback(message.id, { ...message.feedback, irrelevantPassages });
+  };
+
+  const passageElementId = (messageId: string, index: number) => `passage-${messageId}-${index}`;
+
+  // Citation click: reveal the sources, scroll the matching card into view and flash it
+  const focusPassage = (messageId: string, index: number) => {
+    const elementId = passageElementId(messageId, index);
+    if (!isSourcesExpanded(messageId)) {
+      setSourcesExpanded(messageId, true);
+    }
+    setShowAllSources(prev => ({ ...prev, [messageId]: true }));
+    setHighlightedPassage(elementId);
+    setTimeout(() => {
+      document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 0);
+    setTimeout(() => {
+      setHighlightedPassage(current => (current === elementId ? null : current));
+    }, 2000);
+  };
+
+  const renderMetrics = (message: ChatMessage) => {
+    const metrics = message.metrics!;
+    const rows = [
+      { label: 'Embedding', value: metrics.embeddingMs },
+      { label: 'Search', value: metrics.searchMs },
+      { label: 'First token', value: metrics.timeToFirstTokenMs },
+      { label: 'Generation', value: metrics.generationMs },
+      { label: 'Total', value: metrics.totalMs },
+    ].filter(row => row.value !== undefined);
+
+    return (
+      <dl className="mt-1 grid grid-cols-3 sm:grid-cols-6 gap-x-3 gap-y-1 text-[11px] text-gray-500">
+        {rows.map(row => (
+          <div key={row.label}>
+            <dt>{row.label}</dt>
+            <dd className="font-medium text-gray-700 tabular-nums">{formatDuration(row.value!)}</dd>
+          </div>
+        ))}
+        {metrics.tokenCount !== undefined && (
+          <div>
+            <dt>Tokens</dt>
+            <dd className="font-medium text-gray-700 tabular-nums">{metrics.tokenCount}</dd>
+          </div>
+        )}
+      </dl>
+    );
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setEditText(message.content);
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editText.trim() || !onEditMessage) return;
+    onEditMessage(editingId, editText.trim());
+    setEditingId(null);
+  };
+
+  const renderBranchSwitcher = (message: ChatMessage) => {
+    const info = branchInfo[message.id];
+    if (!info || info.count < 2 || !onSwitchBranch) return null;
+    return (
+      <span className="inline-flex items-center select-none">
+        <button
+          type="button"
+          onClick={() => onSwitchBranch(message.id, -1)}
+          disabled={isSending || info.index === 0}
+          className="p-0.5 rounded hover:bg-black/5 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Previous version"
+        >
+          <ChevronLeftIcon className="h-3 w-3" />
+        </button>
+        <span className="tabular-nums">{info.index + 1}/{info.count}</span>
+        <button
+          type="button"
+          onClick={() => onSwitchBranch(message.id, 1)}
+          disabled={isSending || info.index === info.count - 1}
+          className="p-0.5 rounded hover:bg-black/5 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Next version"
+        >
+          <ChevronRightIcon className="h-3 w-3" />
+        </button>
+      </span>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -39,10 +229,16 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading, isSendin
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
               </svg>
             </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Ready to chat!</h3>
-            <p className="text-gray-500">
-              Ask me anything about the latest news. I can help you stay updated with current events from around the world.
-            </p>
+            {readOnly ? (
+              <h3 className="text-lg font-medium text-gray-900 mb-2">This conversation has no messages</h3>
+            ) : (
+              <>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Ready to chat!</h3>
+                <p className="text-gray-500">
+                  Ask me anything about the latest news. I can help you stay updated with current events from around the world.
+                </p>
+              </>
+            )}
           </div>
         </div>
       ) : (
@@ -50,79 +246,162 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading, isSendin
           {messages.map((message, index) => (
             <div
               key={message.id || index}
+              id={`message-${message.id}`}
               className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
               <div
                 className={`
-                  max-w-3xl px-4 py-3 rounded-lg
+                  max-w-3xl px-4 py-3 rounded-lg transition-shadow duration-500
                   ${message.role === 'user'
                     ? 'bg-primary-600 text-white'
                     : 'bg-white border border-gray-200 text-gray-900'
                   }
+                  ${highlightedMessage === message.id ? 'ring-4 ring-yellow-300' : ''}
                 `}
               >
                 <div className="space-y-2">
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                    {message.content}
-                  </p>
+                  {editingId === message.id ? (
+                    <form onSubmit={submitEdit} className="space-y-2">
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        className="block w-full min-w-[16rem] px-3 py-2 rounded-md text-sm text-gray-900 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-300 resize-y"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(null)}
+                          className="px-3 py-1 text-xs font-medium rounded-md text-primary-50 hover:bg-primary-700"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!editText.trim() || isSending}
+                          className="px-3 py-1 text-xs font-medium rounded-md bg-white text-primary-700 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Save &amp; send
+                        </button>
+                      </div>
+                    </form>
+                  ) : message.status === 'streaming' && !message.content ? (
+                    <div className="flex space-x-1 py-1">
+                      <span className="typing-dot w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
+                      <span className="typing-dot w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
+                      <span className="typing-dot w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
+                    </div>
+                  ) : message.role === 'assistant' ? (
+                    <div>
+                      <MarkdownContent
+                        content={message.content}
+                        citations={message.contextPassages}
+                        onCitationClick={(index) => focusPassage(message.id, index)}
+                      />
+                      {message.status === 'streaming' && (
+                        <span className="inline-block w-1.5 h-4 align-text-bottom bg-gray-400 animate-pulse"></span>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                      {message.content}
+                    </p>
+                  )}
                   
                   {/* Context passages for assistant messages */}
                   {message.role === 'assistant' && message.contextPassages && message.contextPassages.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
                       <button
                         type="button"
-                        onClick={() => setShowSources(s => !s)}
+                        onClick={() => setSourcesExpanded(message.id, !isSourcesExpanded(message.id))}
                         className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-800"
                       >
                         <span className="mr-1">Sources / Evidence</span>
-                        <svg className={`h-3 w-3 transition-transform ${showSources ? 'rotate-90' : ''}`} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M6 6L14 10L6 14V6Z" /></svg>
+                        <svg className={`h-3 w-3 transition-transform ${isSourcesExpanded(message.id) ? 'rotate-90' : ''}`} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M6 6L14 10L6 14V6Z" /></svg>
                       </button>
-                      {showSources && (
+                      {isSourcesExpanded(message.id) && (
                         <div className="mt-2 space-y-2">
-                          {message.contextPassages.map((passage, idx) => {
-                            const score = passage.score ?? 0;
-                            const barWidth = Math.min(100, Math.max(5, Math.round(score * 100)));
-                            return (
-                              <div key={idx} className="bg-gray-50 rounded p-2 border border-gray-100">
-                                <div className="flex items-start justify-between gap-2">
-                                  <div className="flex-1 min-w-0">
-                                    <span className="text-xs font-medium text-gray-700 block truncate" title={passage.title}>{passage.title}</span>
-                                    <div className="mt-1 h-1.5 w-full bg-gray-200 rounded overflow-hidden">
-                                      <div style={{ width: `${barWidth}%` }} className="h-full bg-primary-500"></div>
-                                    </div>
-                                  </div>
-                                  {passage.url && (
-                                    <a
-                                      href={passage.url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-[10px] text-primary-600 hover:text-primary-700 shrink-0"
-                                    >Open</a>
-                                  )}
-                                </div>
-                                {passage.excerpt && (
-                                  <p className="mt-1 text-[11px] leading-snug text-gray-600 line-clamp-4" title={passage.excerpt}>{passage.excerpt}</p>
-                                )}
-                                {passage.matchedTerms && passage.matchedTerms.length > 0 && (
-                                  <div className="mt-1 flex flex-wrap gap-1">
-                                    {passage.matchedTerms.map(term => (
-                                      <span key={term} className="bg-yellow-100 text-yellow-800 px-1 rounded text-[10px]">{term}</span>
-                                    ))}
-                                  </div>
-                                )}
-                              </div>
-                            );
-                          })}
+                          {getVisiblePassageIndexes(message).map(idx => (
+                            <ContextPassageCard
+                              key={idx}
+                              id={passageElementId(message.id, idx)}
+                              passage={message.contextPassages![idx]}
+                              number={idx + 1}
+                              highlighted={highlightedPassage === passageElementId(message.id, idx)}
+                              flaggedIrrelevant={isFlaggedIrrelevant(message, message.contextPassages![idx])}
+                              onToggleIrrelevant={canGiveFeedback(message) ? () => togglePassageRelevance(message, message.contextPassages![idx]) : undefined}
+                            />
+                          ))}
+                          {getVisiblePassageIndexes(message).length < message.contextPassages.length && (
+                            <button
+                              type="button"
+                              onClick={() => setShowAllSources(prev => ({ ...prev, [message.id]: true }))}
+                              className="text-[11px] font-medium text-primary-600 hover:text-primary-700"
+                            >
+                              Show all {message.contextPassages.length} sources
+                            </button>
+                          )}
                         </div>
                       )}
                     </div>
                   )}
                   
                   <div className={`
-                    text-xs ${message.role === 'user' ? 'text-primary-100' : 'text-gray-500'}
+                    flex flex-wrap items-center gap-x-2 text-xs ${message.role === 'user' ? 'text-primary-100' : 'text-gray-500'}
                   `}>
-                    {formatTime(message.createdAt)}
+                    <span>{formatTime(message.createdAt)}</span>
+                    {message.status === 'stopped' && (
+                      <span className="italic">· Stopped</span>
+                    )}
+                    {message.dateRange && (
+                      <span className="inline-flex items-center" title="Sources were limited to this publication window">
+                        <CalendarDaysIcon className="h-3.5 w-3.5 mr-0.5" />
+                        {formatDateRange(message.dateRange)}
+                      </span>
+                    )}
+                    {renderBranchSwitcher(message)}
+                    {message.role === 'user' && onEditMessage && editingId !== message.id && (
+                      <button
+                        type="button"
+                        onClick={() => startEditing(message)}
+                        disabled={isSending}
+                        className="p-0.5 rounded hover:bg-black/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Edit and resend"
+                      >
+                        <PencilSquareIcon className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                    {message.id === lastAssistantId && message.status !== 'streaming' && onRegenerate && (
+                      <button
+                        type="button"
+                        onClick={() => onRegenerate(message.id)}
+                        disabled={isSending}
+                        className="p-0.5 rounded hover:bg-black/5 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Regenerate response"
+                      >
+                        <ArrowPathIcon className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                    {canGiveFeedback(message) && (
+                      <AnswerFeedback
+                        feedback={message.feedback}
+                        onSubmit={(feedback) => onFeedback!(message.id, feedback)}
+                      />
+                    )}
+                    {message.role === 'assistant' && message.metrics && (
+                      <button
+                        type="button"
+                        onClick={() => setExpandedMetrics(prev => ({ ...prev, [message.id]: !prev[message.id] }))}
+                        className="inline-flex items-center p-0.5 rounded hover:bg-black/5 hover:text-gray-700"
+                        title={expandedMetrics[message.id] ? 'Hide timings' : 'Show timings'}
+                      >
+                        <ClockIcon className="h-3.5 w-3.5 mr-0.5" />
+                        {message.metrics.totalMs !== undefined && formatDuration(message.metrics.totalMs)}
+                      </button>
+                    )}
                   </div>
+                  {message.role === 'assistant' && message.metrics && expandedMetrics[message.id] && renderMetrics(message)}
                 </div>
               </div>
             </div>
@@ -139,7 +418,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading, isSendin
                       <span>{line}</span>
                     </div>
                   ))}
-                  {streaming && (
+                  {streaming && !hasStreamingMessage && (
                     <div className="text-[11px] text-primary-600 animate-pulse flex items-center">
                       <span className="mr-1">Streaming answer...</span>
                       <span className="flex space-x-0.5">
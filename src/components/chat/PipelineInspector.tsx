@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ClipboardDocumentIcon, CheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { SendMessageRequest } from '../../types';
+import {
+  PipelineStep,
+  buildTimeline,
+  buildTraceJSON,
+  formatDuration,
+  getStageDurations,
+} from '../../utils/pipelineTrace';
+
+interface PipelineInspectorProps {
+  steps: PipelineStep[];
+  request: SendMessageRequest | null; // request that produced the steps
+  isRunning: boolean;
+  onClose: () => void;
+}
+
+const PipelineInspector: React.FC<PipelineInspectorProps> = ({ steps, request, isRunning, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const timeline = buildTimeline(steps);
+  const stages = getStageDurations(steps);
+  const totalMs = Math.max(1, timeline.length > 0 ? timeline[timeline.length - 1].offsetMs : 1);
+
+  const copyTrace = async () => {
+    try {
+      await navigator.clipboard.writeText(buildTraceJSON(steps, request));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying pipeline trace:', error);
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-96 flex-col bg-white border-l border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Retrieval inspector</h2>
+          <p className="text-xs text-gray-500">
+            {isRunning ? 'Recording...' : steps.length > 0 ? 'Last question' : 'Ask a question to record a trace'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={copyTrace}
+            disabled={steps.length === 0}
+            className="flex items-center px-2 py-1 text-xs font-medium rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Copy trace as JSON"
+          >
+            {copied
+              ? <CheckIcon className="h-4 w-4 mr-1 text-green-600" />
+              : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+            {copied ? 'Copied' : 'Copy JSON'}
+          </button>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {request && (
+          <div className="text-xs text-gray-600 space-y-0.5">
+            <p className="font-medium text-gray-800 line-clamp-2" title={request.message}>{request.message}</p>
+            {request.settings && <p>Settings: {JSON.stringify(request.settings)}</p>}
+            {request.scope && (
+              <p>Scope: {[...request.scope.sources, ...request.scope.documents.map(d => d.title)].join(', ')}</p>
+            )}
+            {request.dateRange && <p>Published: {request.dateRange.from || '…'} → {request.dateRange.to || '…'}</p>}
+          </div>
+        )}
+
+        {stages.length > 0 && (
+          <dl className="grid grid-cols-2 gap-2">
+            {stages.map(stage => (
+              <div key={stage.label} className="rounded bg-gray-50 px-2 py-1.5">
+                <dt className="text-[11px] text-gray-500">{stage.label}</dt>
+                <dd className="text-sm font-medium text-gray-900 tabular-nums">{formatDuration(stage.durationMs)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        <ol className="space-y-2">
+          {timeline.map((entry, index) => {
+            const problem = entry.error || entry.warning;
+            return (
+              <li key={index} className="text-xs">
+                <button
+                  onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+                  className="w-full text-left"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`font-mono font-medium ${entry.error ? 'text-red-700' : 'text-gray-800'}`}>
+                      {entry.step.type}
+                    </span>
+                    <span className="text-gray-500 tabular-nums">
+                      +{formatDuration(entry.offsetMs)}
+                      {entry.durationMs !== null && ` · ${formatDuration(entry.durationMs)}`}
+                    </span>
+                  </div>
+                  {/* Position and length of the step relative to the whole run */}
+                  <div className="mt-1 h-1.5 w-full bg-gray-100 rounded relative overflow-hidden">
+                    <div
+                      className={`absolute h-full ${entry.error ? 'bg-red-400' : entry.warning ? 'bg-yellow-400' : 'bg-primary-400'}`}
+                      style={{
+                        left: `${(entry.offsetMs / totalMs) * 100}%`,
+                        width: `${Math.max(1, ((entry.durationMs ?? 0) / totalMs) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                  {(entry.hits !== undefined || entry.rawHits !== undefined || entry.passages !== undefined) && (
+                    <div className="mt-1 flex space-x-3 text-gray-600">
+                      {entry.rawHits !== undefined && <span>raw hits {entry.rawHits}</span>}
+                      {entry.hits !== undefined && <span>hits {entry.hits}</span>}
+                      {entry.passages !== undefined && <span>passages {entry.passages}</span>}
+                    </div>
+                  )}
+                  {problem && (
+                    <div className={`mt-1 flex items-start ${entry.error ? 'text-red-700' : 'text-yellow-700'}`}>
+                      <ExclamationTriangleIcon className="h-3.5 w-3.5 mr-1 mt-px shrink-0" />
+                      <span>{problem}</span>
+                    </div>
+                  )}
+                </button>
+                {expandedIndex === index && (
+                  <pre className="mt-1 p-2 bg-gray-50 rounded text-[11px] text-gray-700 overflow-x-auto">
+                    {JSON.stringify(entry.step.info, null, 2)}
+                  </pre>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </aside>
+  );
+};
+
+export default PipelineInspector;
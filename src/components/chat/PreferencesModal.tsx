@@ -0,0 +1,91 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { usePreferences } from '../../contexts/PreferencesContext';
+import { SourceDisplayMode } from '../../types';
+
+interface PreferencesModalProps {
+  onClose: () => void;
+}
+
+const SOURCE_DISPLAY_OPTIONS: { value: SourceDisplayMode; label: string; description: string }[] = [
+  { value: 'expanded', label: 'Expanded', description: 'Show every source under each answer' },
+  { value: 'collapsed', label: 'Collapsed', description: 'Hide sources until you open them' },
+  { value: 'top', label: 'Top sources only', description: 'Show the best-scoring sources, with the rest one click away' },
+];
+
+const PreferencesModal: React.FC<PreferencesModalProps> = ({ onClose }) => {
+  const { preferences, updatePreferences } = usePreferences();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Preferences</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Answer sources</legend>
+            <p className="text-xs text-gray-500 mt-1">
+              Default for new answers. Sources you open or close yourself stay that way.
+            </p>
+            <div className="mt-3 space-y-2">
+              {SOURCE_DISPLAY_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="sourceDisplay"
+                    value={option.value}
+                    checked={preferences.sourceDisplay === option.value}
+                    onChange={() => updatePreferences({ sourceDisplay: option.value })}
+                    className="mt-1 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {preferences.sourceDisplay === 'top' && (
+            <div>
+              <label htmlFor="sourceTopN" className="block text-sm font-medium text-gray-700">
+                Number of sources to show
+              </label>
+              <input
+                id="sourceTopN"
+                type="number"
+                min={1}
+                max={20}
+                value={preferences.sourceTopN}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value)) {
+                    updatePreferences({ sourceTopN: Math.min(20, Math.max(1, value)) });
+                  }
+                }}
+                className="mt-1 block w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreferencesModal;
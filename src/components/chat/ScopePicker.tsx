@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { FunnelIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { chatAPI, contentAPI } from '../../services/api';
+import { SearchScope } from '../../types';
+import { normalizeScope } from '../../utils/searchScope';
+
+interface ScopePickerProps {
+  scope?: SearchScope | null;
+  onChange: (scope: SearchScope | null) => void;
+  disabled?: boolean;
+}
+
+interface ScopeOptions {
+  sources: { source: string; count: number }[];
+  documents: { id: string; title: string; source: string }[];
+}
+
+const MAX_LISTED_DOCUMENTS = 50;
+
+const ScopePicker: React.FC<ScopePickerProps> = ({ scope, onChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ScopeOptions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [documentQuery, setDocumentQuery] = useState('');
+
+  const selected: SearchScope = scope || { sources: [], documents: [] };
+  const selectedCount = selected.sources.length + selected.documents.length;
+
+  // Sources and documents are fetched the first time the picker opens
+  const loadOptions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [stats, documentList] = await Promise.all([
+        chatAPI.getNewsStats(),
+        contentAPI.getDocuments(),
+      ]);
+      setOptions({
+        sources: stats.sources,
+        documents: documentList.documents
+          .filter(doc => doc.isEmbedded)
+          .map(doc => ({ id: doc.id, title: doc.title, source: doc.source })),
+      });
+    } catch (error) {
+      console.error('Error loading search scope options:', error);
+      setError('Failed to load sources');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleOpen = () => {
+    if (!isOpen && !options && !isLoading) {
+      loadOptions();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const toggleSource = (source: string) => {
+    const sources = selected.sources.indexOf(source) !== -1
+      ? selected.sources.filter(s => s !== source)
+      : [...selected.sources, source];
+    onChange(normalizeScope({ ...selected, sources }));
+  };
+
+  const toggleDocument = (doc: { id: string; title: string }) => {
+    const documents = selected.documents.some(d => d.id === doc.id)
+      ? selected.documents.filter(d => d.id !== doc.id)
+      : [...selected.documents, { id: doc.id, title: doc.title }];
+    onChange(normalizeScope({ ...selected, documents }));
+  };
+
+  const query = documentQuery.trim().toLowerCase();
+  const matchingDocuments = (options?.documents || []).filter(doc =>
+    !query || doc.title.toLowerCase().includes(query) || doc.source.toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={toggleOpen}
+        disabled={disabled}
+        className={`
+          relative p-3 rounded-lg border shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed
+          ${selectedCount > 0
+            ? 'border-primary-300 bg-primary-50 text-primary-600'
+            : 'border-gray-300 text-gray-400 hover:text-gray-600'
+          }
+        `}
+        title="Limit search to sources or documents"
+      >
+        <FunnelIcon className="h-5 w-5" />
+        {selectedCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-600 text-white text-[11px] leading-5 text-center">
+            {selectedCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 bottom-full mb-2 w-80 max-h-96 flex flex-col bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-20">
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">Search only in</span>
+              {selectedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(null)}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Search everything
+                </button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <p className="p-4 text-sm text-gray-500 text-center">Loading sources...</p>
+            ) : error ? (
+              <div className="p-4 text-center">
+                <p className="text-sm text-red-600">{error}</p>
+                <button
+                  type="button"
+                  onClick={loadOptions}
+                  className="mt-1 text-xs font-medium text-red-700 hover:text-red-800"
+                >
+                  Retry
+                </button>
+              </div>
+            ) : options && (
+              <div className="flex-1 overflow-y-auto custom-scrollbar">
+                <div className="px-4 py-2">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Sources</h4>
+                  {options.sources.length === 0 ? (
+                    <p className="py-1 text-xs text-gray-400">No sources yet</p>
+                  ) : options.sources.map(({ source, count }) => (
+                    <label key={source} className="flex items-center py-1 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.sources.indexOf(source) !== -1}
+                        onChange={() => toggleSource(source)}
+                        className="mr-2 rounded text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="flex-1 truncate">{source}</span>
+                      <span className="ml-2 text-xs text-gray-400">{count}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="px-4 py-2 border-t border-gray-100">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Documents</h4>
+                  <div className="relative mt-2">
+                    <MagnifyingGlassIcon className="absolute left-2 top-1/2 transform -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+                    <input
+                      type="text"
+                      value={documentQuery}
+                      onChange={(e) => setDocumentQuery(e.target.value)}
+                      placeholder="Filter documents..."
+                      className="pl-7 block w-full py-1 text-sm border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                  {matchingDocuments.length === 0 ? (
+                    <p className="py-1 text-xs text-gray-400">No documents match</p>
+                  ) : matchingDocuments.slice(0, MAX_LISTED_DOCUMENTS).map(doc => (
+                    <label key={doc.id} className="flex items-start py-1 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.documents.some(d => d.id === doc.id)}
+                        onChange={() => toggleDocument(doc)}
+                        className="mt-0.5 mr-2 rounded text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="min-w-0">
+                        <span className="block truncate" title={doc.title}>{doc.title}</span>
+                        <span className="block text-xs text-gray-400 truncate">{doc.source}</span>
+                      </span>
+                    </label>
+                  ))}
+                  {matchingDocuments.length > MAX_LISTED_DOCUMENTS && (
+                    <p className="py-1 text-xs text-gray-400">
+                      Showing {MAX_LISTED_DOCUMENTS} of {matchingDocuments.length}; filter to find more
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScopePicker;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ChatSession, UpdateChatSessionRequest } from '../../types';
+import {
+  TrashIcon,
+  XMarkIcon,
+  PencilIcon,
+  StarIcon,
+  ArchiveBoxArrowDownIcon,
+  ArchiveBoxXMarkIcon,
+  LinkIcon
+} from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+
+interface SessionListItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  title: string;
+  subtitle: string;
+  onSelect: () => void;
+  onUpdate: (changes: UpdateChatSessionRequest) => void;
+  onShare: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+}
+
+const SessionListItem: React.FC<SessionListItemProps> = ({
+  session,
+  isActive,
+  title,
+  subtitle,
+  onSelect,
+  onUpdate,
+  onShare,
+  onClear,
+  onDelete,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = () => {
+    setDraftTitle(session.title || '');
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const trimmed = draftTitle.trim();
+    setIsRenaming(false);
+    if (trimmed && trimmed !== session.title) {
+      onUpdate({ title: trimmed });
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setIsRenaming(false);
+    }
+  };
+
+  // Action buttons must not also select the session
+  const action = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  return (
+    <div
+      className={`
+        group relative rounded-lg p-3 cursor-pointer transition-colors duration-200
+        ${isActive
+          ? 'bg-primary-50 border border-primary-200'
+          : 'hover:bg-gray-50'
+        }
+        ${session.archived ? 'opacity-75' : ''}
+      `}
+      onClick={isRenaming ? undefined : onSelect}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          {isRenaming ? (
+            <input
+              type="text"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onKeyDown={handleRenameKeyDown}
+              onBlur={commitRename}
+              onClick={(e) => e.stopPropagation()}
+              autoFocus
+              maxLength={120}
+              className="block w-full px-2 py-0.5 text-sm border border-primary-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+          ) : (
+            <h3
+              className={`
+                flex items-center text-sm font-medium
+                ${isActive ? 'text-primary-700' : 'text-gray-900'}
+              `}
+              title={title}
+              onDoubleClick={action(startRename)}
+            >
+              {session.pinned && <StarSolidIcon className="h-3.5 w-3.5 mr-1 text-yellow-400 shrink-0" />}
+              <span className="truncate">{title}</span>
+              {session.shareToken && (
+                <span title="Shared via read-only link" className="ml-1 shrink-0">
+                  <LinkIcon className="h-3.5 w-3.5 text-primary-500" />
+                </span>
+              )}
+            </h3>
+          )}
+          <p className="text-xs text-gray-500 mt-1">
+            {subtitle}
+          </p>
+        </div>
+
+        {!isRenaming && (
+          <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+            <button
+              onClick={action(startRename)}
+              className="p-1 rounded text-gray-400 hover:text-primary-600 hover:bg-primary-50"
+              title="Rename"
+            >
+              <PencilIcon className="h-4 w-4" />
+            </button>
+            {!session.archived && (
+              <button
+                onClick={action(() => onUpdate({ pinned: !session.pinned }))}
+                className="p-1 rounded text-gray-400 hover:text-yellow-500 hover:bg-yellow-50"
+                title={session.pinned ? 'Unpin' : 'Pin to top'}
+              >
+                {session.pinned ? <StarSolidIcon className="h-4 w-4 text-yellow-400" /> : <StarIcon className="h-4 w-4" />}
+              </button>
+            )}
+            <button
+              onClick={action(onShare)}
+              className={`p-1 rounded hover:text-primary-600 hover:bg-primary-50 ${session.shareToken ? 'text-primary-500' : 'text-gray-400'}`}
+              title={session.shareToken ? 'Manage share link' : 'Share'}
+            >
+              <LinkIcon className="h-4 w-4" />
+            </button>
+            <button
+              onClick={action(() => onUpdate({ archived: !session.archived, pinned: false }))}
+              className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+              title={session.archived ? 'Restore from archive' : 'Archive'}
+            >
+              {session.archived
+                ? <ArchiveBoxXMarkIcon className="h-4 w-4" />
+                : <ArchiveBoxArrowDownIcon className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={action(onClear)}
+              className="p-1 rounded text-gray-400 hover:text-yellow-600 hover:bg-yellow-50"
+              title="Clear messages"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+            <button
+              onClick={action(onDelete)}
+              className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+              title="Delete session"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionListItem;
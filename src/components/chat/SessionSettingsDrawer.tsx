@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { systemAPI } from '../../services/api';
+import { AnswerLength, RetrievalSettings, SystemConfig } from '../../types';
+
+interface SessionSettingsDrawerProps {
+  settings?: RetrievalSettings | null;
+  onSave: (settings: RetrievalSettings | null) => void;
+  onClose: () => void;
+}
+
+const ANSWER_LENGTHS: { value: AnswerLength; label: string }[] = [
+  { value: 'short', label: 'Short' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'long', label: 'Detailed' },
+];
+
+const TOP_K_LIMIT = 20;
+
+// Blank inputs mean "use the server default", so only filled-in fields are kept
+const toSettings = (draft: { topK: string; minScore: string; answerLength: string; model: string }): RetrievalSettings | null => {
+  const settings: RetrievalSettings = {};
+  const topK = parseInt(draft.topK, 10);
+  const minScore = parseFloat(draft.minScore);
+
+  if (!isNaN(topK)) settings.topK = Math.min(TOP_K_LIMIT, Math.max(1, topK));
+  if (!isNaN(minScore)) settings.minScore = Math.min(1, Math.max(0, minScore));
+  if (draft.answerLength) settings.answerLength = draft.answerLength as AnswerLength;
+  if (draft.model) settings.model = draft.model;
+
+  return Object.keys(settings).length > 0 ? settings : null;
+};
+
+const SessionSettingsDrawer: React.FC<SessionSettingsDrawerProps> = ({ settings, onSave, onClose }) => {
+  const [config, setConfig] = useState<SystemConfig | null>(null);
+  const [draft, setDraft] = useState({
+    topK: settings?.topK?.toString() ?? '',
+    minScore: settings?.minScore?.toString() ?? '',
+    answerLength: settings?.answerLength ?? '',
+    model: settings?.model ?? '',
+  });
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        setConfig(await systemAPI.getConfig());
+      } catch (error) {
+        console.error('Error loading system config:', error);
+      }
+    };
+    loadConfig();
+  }, []);
+
+  const models = config
+    ? Array.from(new Set([config.aiModel, ...(config.availableModels || [])]))
+    : [];
+
+  const updateDraft = (field: keyof typeof draft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(toSettings(draft));
+    onClose();
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-25 z-40" onClick={onClose} />
+      <form
+        onSubmit={handleSubmit}
+        className="fixed inset-y-0 right-0 w-full max-w-sm bg-white shadow-xl z-50 flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Chat settings</h2>
+            <p className="text-xs text-gray-500">Apply to every question in this chat</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div>
+            <label htmlFor="settings-topK" className="block text-sm font-medium text-gray-700">
+              Passages per answer
+            </label>
+            <input
+              id="settings-topK"
+              type="number"
+              min={1}
+              max={TOP_K_LIMIT}
+              value={draft.topK}
+              onChange={updateDraft('topK')}
+              placeholder="Default"
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">How many of the best-matching passages the model reads (top-k).</p>
+          </div>
+
+          <div>
+            <label htmlFor="settings-minScore" className="block text-sm font-medium text-gray-700">
+              Minimum similarity score
+            </label>
+            <input
+              id="settings-minScore"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.minScore}
+              onChange={updateDraft('minScore')}
+              placeholder="Default"
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">Passages scoring below this (0–1) are left out, even within the top-k.</p>
+          </div>
+
+          <div>
+            <label htmlFor="settings-answerLength" className="block text-sm font-medium text-gray-700">
+              Answer length
+            </label>
+            <select
+              id="settings-answerLength"
+              value={draft.answerLength}
+              onChange={updateDraft('answerLength')}
+              className={inputClass}
+            >
+              <option value="">Default</option>
+              {ANSWER_LENGTHS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="settings-model" className="block text-sm font-medium text-gray-700">
+              AI model
+            </label>
+            <select
+              id="settings-model"
+              value={draft.model}
+              onChange={updateDraft('model')}
+              className={inputClass}
+            >
+              <option value="">Default{config ? ` (${config.aiModel})` : ''}</option>
+              {models.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+              {/* Keep a previously chosen model selectable even if it's no longer offered */}
+              {draft.model && config && models.indexOf(draft.model) === -1 && (
+                <option value={draft.model}>{draft.model} (unavailable)</option>
+              )}
+            </select>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-between">
+          <button
+            type="button"
+            onClick={() => setDraft({ topK: '', minScore: '', answerLength: '', model: '' })}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Reset to defaults
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </>
+  );
+};
+
+export default SessionSettingsDrawer;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { XMarkIcon, LinkIcon, ClipboardDocumentIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { ChatSession } from '../../types';
+
+interface ShareSessionModalProps {
+  session: ChatSession;
+  title: string;
+  onShare: () => Promise<void>;
+  onRevoke: () => Promise<void>;
+  onClose: () => void;
+}
+
+const getShareUrl = (shareToken: string) => `${window.location.origin}/shared/${shareToken}`;
+
+const ShareSessionModal: React.FC<ShareSessionModalProps> = ({ session, title, onShare, onRevoke, onClose }) => {
+  const [isWorking, setIsWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    await action();
+    setIsWorking(false);
+    setCopied(false);
+  };
+
+  const copyLink = async () => {
+    if (!session.shareToken) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(session.shareToken));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 truncate" title={title}>Share "{title}"</h2>
+          <button onClick={onClose} className="ml-4 text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {session.shareToken ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Anyone with this link can read the conversation, including later messages. They cannot reply or change it.
+              </p>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={getShareUrl(session.shareToken)}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-md bg-gray-50 text-gray-700 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+                <button
+                  onClick={copyLink}
+                  className="flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md"
+                >
+                  {copied
+                    ? <CheckIcon className="h-4 w-4 mr-1" />
+                    : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Create a read-only link to show this conversation to someone without an account. You can revoke it at any time.
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-between">
+          {session.shareToken ? (
+            <button
+              onClick={() => run(onRevoke)}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking ? 'Revoking...' : 'Revoke link'}
+            </button>
+          ) : (
+            <button
+              onClick={() => run(onShare)}
+              disabled={isWorking}
+              className="flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <LinkIcon className="h-4 w-4 mr-2" />
+              {isWorking ? 'Creating...' : 'Create link'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareSessionModal;
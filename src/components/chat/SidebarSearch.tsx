@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { chatAPI } from '../../services/api';
+import { MessageSearchResult } from '../../types';
+
+interface SidebarSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  onResultSelect: (result: MessageSearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export const isSearchActive = (query: string) => query.trim().length >= MIN_QUERY_LENGTH;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps every occurrence of the query's words in <mark>
+const highlightMatches = (text: string, query: string): React.ReactNode => {
+  const words = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return text;
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) => (
+    index % 2 === 1
+      ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{part}</mark>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  ));
+};
+
+const SidebarSearch: React.FC<SidebarSearchProps> = ({ query, onQueryChange, onResultSelect }) => {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced search; stale responses are ignored when the query changes mid-flight
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!isSearchActive(trimmed)) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        setError(null);
+        const data = await chatAPI.searchMessages(trimmed);
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        if (!cancelled) setError('Search failed');
+        console.error('Error searching messages:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <>
+      <div className="relative mt-3">
+        <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search all chats..."
+          className="pl-9 pr-8 block w-full py-2 text-sm border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        />
+        {query && (
+          <button
+            onClick={() => onQueryChange('')}
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 p-0.5 rounded text-gray-400 hover:text-gray-600"
+            title="Clear search"
+          >
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {isSearchActive(query) && (
+        <div className="mt-3 -mx-4 border-t border-gray-200 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {isSearching ? (
+            <p className="p-4 text-sm text-gray-500 text-center">Searching...</p>
+          ) : error ? (
+            <p className="p-4 text-sm text-red-600 text-center">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">No messages match "{query.trim()}"</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {results.map(result => (
+                <li key={`${result.sessionId}-${result.messageId}`}>
+                  <button
+                    onClick={() => onResultSelect(result)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span className="font-medium text-gray-700 truncate" title={result.sessionTitle}>
+                        {result.sessionTitle || 'Untitled chat'}
+                      </span>
+                      <span className="ml-2 shrink-0">{new Date(result.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-800 line-clamp-3">
+                      <span className="text-xs text-gray-400 mr-1">{result.role === 'user' ? 'You:' : 'AI:'}</span>
+                      {highlightMatches(result.snippet, query)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SidebarSearch;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  HandThumbUpIcon,
+  HandThumbDownIcon,
+  NoSymbolIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import { chatAPI } from '../../services/api';
+import { FeedbackCounts, FeedbackSummary } from '../../types';
+
+// Share of negative signals (downvotes + "not relevant" flags) per citation; used to surface content to prune
+const problemRate = (counts: FeedbackCounts & { citations: number }) =>
+  counts.citations > 0 ? (counts.down + counts.irrelevant) / counts.citations : 0;
+
+const FeedbackDashboard: React.FC = () => {
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSummary();
+  }, []);
+
+  const loadSummary = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await chatAPI.getFeedbackSummary();
+      setSummary(data);
+    } catch (error) {
+      console.error('Error loading feedback summary:', error);
+      setError('Failed to load answer feedback');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin h-8 w-8 border-2 border-primary-600 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-center justify-between">
+        <div className="flex items-center">
+          <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+          <p className="ml-3 text-sm text-red-800">{error}</p>
+        </div>
+        <button
+          onClick={loadSummary}
+          className="text-sm font-medium text-red-700 hover:text-red-800"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!summary) return null;
+
+  const sources = [...summary.sources].sort((a, b) => problemRate(b) - problemRate(a));
+  const documents = [...summary.documents].sort((a, b) => problemRate(b) - problemRate(a));
+
+  const cards = [
+    { label: 'Helpful answers', value: summary.totals.up, icon: HandThumbUpIcon, color: 'text-green-400' },
+    { label: 'Unhelpful answers', value: summary.totals.down, icon: HandThumbDownIcon, color: 'text-red-400' },
+    { label: 'Passages flagged not relevant', value: summary.totals.irrelevant, icon: NoSymbolIcon, color: 'text-yellow-400' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {cards.map(card => {
+          const Icon = card.icon;
+          return (
+            <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-5 flex items-center">
+                <Icon className={`h-6 w-6 ${card.color}`} />
+                <dl className="ml-5 w-0 flex-1">
+                  <dt className="text-sm font-medium text-gray-500 truncate">{card.label}</dt>
+                  <dd className="text-lg font-medium text-gray-900">{card.value}</dd>
+                </dl>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* By source */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">By source</h3>
+          <p className="text-sm text-gray-500">Sorted by share of negative feedback per citation</p>
+        </div>
+        {sources.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">No feedback yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-2 text-left font-medium text-gray-500">Source</th>
+                  <th className="px-6 py-2 text-right font-medium text-gray-500">Cited</th>
+                  <th className="px-6 py-2 text-right font-medium text-gray-500">Helpful</th>
+                  <th className="px-6 py-2 text-right font-medium text-gray-500">Unhelpful</th>
+                  <th className="px-6 py-2 text-right font-medium text-gray-500">Not relevant</th>
+                  <th className="px-6 py-2 text-right font-medium text-gray-500">Problem rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {sources.map(row => (
+                  <tr key={row.source} className="hover:bg-gray-50">
+                    <td className="px-6 py-2 text-gray-900">{row.source}</td>
+                    <td className="px-6 py-2 text-right text-gray-700">{row.citations}</td>
+                    <td className="px-6 py-2 text-right text-green-700">{row.up}</td>
+                    <td className="px-6 py-2 text-right text-red-700">{row.down}</td>
+                    <td className="px-6 py-2 text-right text-yellow-700">{row.irrelevant}</td>
+                    <td className="px-6 py-2 text-right font-medium text-gray-900">{formatRate(problemRate(row))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* By document */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">By document</h3>
+          <p className="text-sm text-gray-500">Candidates for pruning appear first</p>
+        </div>
+        {documents.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">No feedback yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {documents.map(doc => (
+              <div key={`${doc.source}-${doc.url || doc.title}`} className="px-6 py-3 flex items-center justify-between hover:bg-gray-50">
+                <div className="min-w-0 flex-1">
+                  {doc.url ? (
+                    <a
+                      href={doc.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium text-primary-600 hover:text-primary-700 truncate block"
+                    >
+                      {doc.title}
+                    </a>
+                  ) : (
+                    <span className="text-sm font-medium text-gray-900 truncate block">{doc.title}</span>
+                  )}
+                  <span className="text-xs text-gray-500">{doc.source} · cited {doc.citations}×</span>
+                </div>
+                <div className="ml-4 flex items-center space-x-3 text-xs">
+                  <span className="text-green-700">Helpful {doc.up}</span>
+                  <span className="text-red-700">Unhelpful {doc.down}</span>
+                  <span className="text-yellow-700">Not relevant {doc.irrelevant}</span>
+                  <span className="w-12 text-right font-medium text-gray-900">{formatRate(problemRate(doc))}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Recent reasons */}
+      {summary.recentReasons.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Recent comments</h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {summary.recentReasons.map((item, index) => (
+              <li key={index} className="px-6 py-3 flex items-start space-x-3 text-sm">
+                {item.rating === 'up'
+                  ? <HandThumbUpIcon className="h-4 w-4 mt-0.5 text-green-500" />
+                  : <HandThumbDownIcon className="h-4 w-4 mt-0.5 text-red-500" />}
+                <span className="flex-1 text-gray-700">{item.reason}</span>
+                <span className="text-xs text-gray-400">{new Date(item.createdAt).toLocaleDateString()}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackDashboard;
@@ -11,6 +11,10 @@ export const config = {
   // Development flags
   isDevelopment: process.env.NODE_ENV === 'development',
   isProduction: process.env.NODE_ENV === 'production',
+
+  // Retrieval inspector (raw pipeline events) for developers; opt-in for production builds
+  ENABLE_PIPELINE_INSPECTOR:
+    process.env.NODE_ENV !== 'production' || process.env.REACT_APP_ENABLE_PIPELINE_INSPECTOR === 'true',
 } as const;
 
 // Validation function to ensure required environment variables are set
@@ -1,6 +1,8 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
 import { User, AuthResponse, LoginRequest, SignupRequest } from '../types';
-import { authAPI } from '../services/api';
+import { authAPI, refreshAccessToken } from '../services/api';
+import { authSession, scheduleTokenRefresh, watchOtherTabs } from '../services/authSession';
+import { disconnectSocket, updateSocketAuth } from '../services/socket';
 
 // Auth State
 interface AuthState {
@@ -9,6 +11,8 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  pendingVerificationEmail: string | null; // signed up (or tried to log in) but hasn't confirmed their email yet
+  requestError: string | null; // last failed password reset or verification request, kept apart from login errors
 }
 
 // Auth Actions
@@ -17,14 +21,23 @@ type AuthAction =
   | { type: 'AUTH_SUCCESS'; payload: AuthResponse }
   | { type: 'AUTH_ERROR'; payload: string }
   | { type: 'AUTH_LOGOUT' }
+  | { type: 'TOKEN_REFRESHED'; payload: string }
+  | { type: 'SESSION_EXPIRED' }
+  | { type: 'VERIFICATION_REQUIRED'; payload: { email: string; error?: string } }
+  | { type: 'REQUEST_ERROR'; payload: string | null }
   | { type: 'CLEAR_ERROR' };
 
 // Auth Context
 interface AuthContextType extends AuthState {
   login: (data: LoginRequest) => Promise<void>;
-  signup: (data: SignupRequest) => Promise<void>;
+  signup: (data: SignupRequest) => Promise<boolean>;
   logout: () => void;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: (email: string) => Promise<void>;
   clearError: () => void;
+  clearRequestError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -46,6 +59,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         user: action.payload.user,
         token: action.payload.access_token,
         error: null,
+        pendingVerificationEmail: null,
       };
     case 'AUTH_ERROR':
       return {
@@ -55,6 +69,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         user: null,
         token: null,
         error: action.payload,
+        pendingVerificationEmail: null,
       };
     case 'AUTH_LOGOUT':
       return {
@@ -64,6 +79,32 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         token: null,
         error: null,
       };
+    case 'TOKEN_REFRESHED':
+      return {
+        ...state,
+        token: action.payload,
+      };
+    case 'SESSION_EXPIRED':
+      return {
+        ...state,
+        isAuthenticated: false,
+        user: null,
+        token: null,
+        error: 'Your session has expired. Please sign in again.',
+      };
+    case 'VERIFICATION_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        pendingVerificationEmail: action.payload.email,
+        error: action.payload.error || null,
+      };
+    // Password reset and verification pages track their own loading state; only the error is shared
+    case 'REQUEST_ERROR':
+      return {
+        ...state,
+        requestError: action.payload,
+      };
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -81,31 +122,78 @@ const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: false,
   error: null,
+  pendingVerificationEmail: null,
+  requestError: null,
+};
+
+// Restore the stored session synchronously, so the first render already knows whether the user is
+// signed in and ProtectedRoute doesn't bounce deep links to /login
+const initAuthState = (state: AuthState): AuthState => {
+  const token = authSession.getAccessToken();
+  if (!token) return state;
+
+  try {
+    const user = authSession.getUser();
+    return user ? authReducer(state, { type: 'AUTH_SUCCESS', payload: { access_token: token, user } }) : state;
+  } catch (error) {
+    // Clear invalid data
+    authSession.clear();
+    return state;
+  }
 };
 
 // Auth Provider
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(authReducer, initialState);
+  const [state, dispatch] = useReducer(authReducer, initialState, initAuthState);
+
+  // Refreshes and expiry detected by the API client, and logins/logouts/refreshes from other tabs
+  useEffect(() => {
+    const unsubscribe = authSession.subscribe(event => {
+      switch (event.type) {
+        case 'refreshed':
+          dispatch({ type: 'TOKEN_REFRESHED', payload: event.accessToken });
+          break;
+        case 'expired':
+          authSession.clear();
+          dispatch({ type: 'SESSION_EXPIRED' });
+          break;
+        case 'signedIn':
+          dispatch({ type: 'AUTH_SUCCESS', payload: { access_token: event.accessToken, user: event.user } });
+          break;
+        case 'signedOut':
+          dispatch({ type: 'AUTH_LOGOUT' });
+          break;
+      }
+    });
+    const unwatch = watchOtherTabs();
+    return () => {
+      unsubscribe();
+      unwatch();
+    };
+  }, []);
 
-  // Initialize auth state from localStorage
+  // Refresh shortly before the access token expires so requests and the socket never see a stale one
   useEffect(() => {
-    const token = localStorage.getItem('access_token');
-    const userStr = localStorage.getItem('user');
-    
-    if (token && userStr) {
+    if (!state.token || !authSession.getRefreshToken()) return;
+
+    return scheduleTokenRefresh(state.token, async () => {
       try {
-        const user = JSON.parse(userStr);
-        dispatch({
-          type: 'AUTH_SUCCESS',
-          payload: { access_token: token, user },
-        });
+        await refreshAccessToken();
       } catch (error) {
-        // Clear invalid data
-        localStorage.removeItem('access_token');
-        localStorage.removeItem('user');
+        // The next request's 401 handling retries and ends the session if that fails too
+        console.error('Error refreshing access token:', error);
       }
+    });
+  }, [state.token]);
+
+  // Keep the socket's credentials in step with the session: new tokens for the next handshake, none after logout
+  useEffect(() => {
+    if (state.token) {
+      updateSocketAuth(state.token);
+    } else {
+      disconnectSocket();
     }
-  }, []);
+  }, [state.token]);
 
   const login = async (data: LoginRequest): Promise<void> => {
     try {
@@ -113,27 +201,38 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const response = await authAPI.login(data);
       
       // Store in localStorage
-      localStorage.setItem('access_token', response.access_token);
-      localStorage.setItem('user', JSON.stringify(response.user));
+      authSession.save(response.access_token, response.refresh_token, response.user);
       
       dispatch({ type: 'AUTH_SUCCESS', payload: response });
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || 'Login failed';
-      dispatch({ type: 'AUTH_ERROR', payload: errorMessage });
+      if (error.response?.data?.code === 'email_not_verified') {
+        dispatch({
+          type: 'VERIFICATION_REQUIRED',
+          payload: { email: data.email, error: 'Please confirm your email address before signing in.' },
+        });
+      } else {
+        dispatch({ type: 'AUTH_ERROR', payload: errorMessage });
+      }
       throw error;
     }
   };
 
-  const signup = async (data: SignupRequest): Promise<void> => {
+  // Resolves false when the account has to confirm its email before it can sign in
+  const signup = async (data: SignupRequest): Promise<boolean> => {
     try {
       dispatch({ type: 'AUTH_START' });
       const response = await authAPI.signup(data);
+      if ('verificationRequired' in response) {
+        dispatch({ type: 'VERIFICATION_REQUIRED', payload: { email: response.email } });
+        return false;
+      }
       
       // Store in localStorage
-      localStorage.setItem('access_token', response.access_token);
-      localStorage.setItem('user', JSON.stringify(response.user));
+      authSession.save(response.access_token, response.refresh_token, response.user);
       
       dispatch({ type: 'AUTH_SUCCESS', payload: response });
+      return true;
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || 'Signup failed';
       dispatch({ type: 'AUTH_ERROR', payload: errorMessage });
@@ -146,16 +245,49 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'AUTH_LOGOUT' });
   };
 
+  // Password reset and verification calls: errors go to requestError, never to the login form's state
+  const runRequest = async (request: () => Promise<void>, fallbackMessage: string): Promise<void> => {
+    try {
+      dispatch({ type: 'REQUEST_ERROR', payload: null });
+      await request();
+    } catch (error: any) {
+      dispatch({ type: 'REQUEST_ERROR', payload: error.response?.data?.message || fallbackMessage });
+      throw error;
+    }
+  };
+
+  const requestPasswordReset = (email: string) =>
+    runRequest(() => authAPI.requestPasswordReset({ email }), 'Could not send the reset email');
+
+  const resetPassword = (token: string, password: string) =>
+    runRequest(() => authAPI.resetPassword({ token, password }), 'This reset link is invalid or has expired');
+
+  const verifyEmail = (token: string) =>
+    runRequest(() => authAPI.verifyEmail({ token }), 'This verification link is invalid or has expired');
+
+  const resendVerification = (email: string) =>
+    runRequest(() => authAPI.resendVerification({ email }), 'Could not resend the verification email');
+
   const clearError = (): void => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
 
+  // Stable, so pages can clear it when they unmount
+  const clearRequestError = useCallback((): void => {
+    dispatch({ type: 'REQUEST_ERROR', payload: null });
+  }, []);
+
   const value: AuthContextType = {
     ...state,
     login,
     signup,
     logout,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
     clearError,
+    clearRequestError,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useState } from 'react';
+import { UserPreferences } from '../types';
+import { preferencesStorage } from '../services/preferences';
+
+// Preferences Context
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+// Preferences Provider
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferences, setPreferences] = useState<UserPreferences>(() => preferencesStorage.getPreferences());
+
+  const updatePreferences = (changes: Partial<UserPreferences>): void => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      preferencesStorage.savePreferences(next);
+      return next;
+    });
+  };
+
+  const value: PreferencesContextType = {
+    preferences,
+    updatePreferences,
+  };
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+};
+
+// Hook to use preferences context
+export const usePreferences = (): PreferencesContextType => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
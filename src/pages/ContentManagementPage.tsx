@@ -4,9 +4,10 @@ import { Link } from 'react-router-dom';
 import FileUpload from '../components/content/FileUpload';
 import URLScraper from '../components/content/URLScraper';
 import DocumentList from '../components/content/DocumentList';
+import FeedbackDashboard from '../components/content/FeedbackDashboard';
 
 const ContentManagementPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'upload' | 'scrape' | 'list'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'scrape' | 'list' | 'feedback'>('upload');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const handleContentUpdate = () => {
@@ -16,7 +17,8 @@ const ContentManagementPage: React.FC = () => {
   const tabs = [
     { id: 'upload', label: 'Upload Files', description: 'Upload documents, PDFs, and text files' },
     { id: 'scrape', label: 'Scrape URLs', description: 'Extract content from web pages and RSS feeds' },
-    { id: 'list', label: 'Manage Content', description: 'View and manage all your content' }
+    { id: 'list', label: 'Manage Content', description: 'View and manage all your content' },
+    { id: 'feedback', label: 'Answer Feedback', description: 'See which sources and documents lead to poor answers' }
   ];
 
   return (
@@ -86,6 +88,10 @@ const ContentManagementPage: React.FC = () => {
               onDocumentUpdate={handleContentUpdate} 
             />
           )}
+
+          {activeTab === 'feedback' && (
+            <FeedbackDashboard />
+          )}
         </div>
       </div>
     </div>
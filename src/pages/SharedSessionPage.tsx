@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { chatAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { SharedChatSession } from '../types';
+import MessageList from '../components/chat/MessageList';
+import { getActiveBranch, normalizeMessageTree } from '../utils/messageTree';
+
+const SharedSessionPage: React.FC = () => {
+  const { shareToken } = useParams<{ shareToken: string }>();
+  const { isAuthenticated } = useAuth();
+  const [session, setSession] = useState<SharedChatSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareToken) return;
+
+    const loadSharedSession = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await chatAPI.getSharedSession(shareToken);
+        setSession(data);
+      } catch (error: any) {
+        console.error('Error loading shared session:', error);
+        setError(error.response?.status === 404
+          ? 'This link has been revoked or does not exist'
+          : 'Failed to load shared conversation');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSharedSession();
+  }, [shareToken]);
+
+  // Viewers see the branch the conversation currently ends on
+  const messages = useMemo(
+    () => getActiveBranch(normalizeMessageTree(session?.messages || []), {}),
+    [session]
+  );
+
+  const title = session?.title || (session ? `Chat from ${new Date(session.createdAt).toLocaleDateString()}` : 'Shared conversation');
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-900 truncate" title={title}>{title}</h1>
+            {session && (
+              <p className="text-xs text-gray-500">
+                Read-only
+                {session.ownerName && ` · shared by ${session.ownerName}`}
+                {` · ${new Date(session.sharedAt).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+          <Link
+            to={isAuthenticated ? '/chat' : '/login'}
+            className="ml-4 shrink-0 text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            {isAuthenticated ? 'Go to your chats' : 'Sign in'}
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-hidden">
+        {error ? (
+          <div className="max-w-md mx-auto mt-12 bg-red-50 border border-red-200 rounded-md p-4 flex items-center">
+            <ExclamationTriangleIcon className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-800">{error}</p>
+          </div>
+        ) : (
+          <div className="h-full max-w-4xl mx-auto">
+            <MessageList
+              messages={messages}
+              isLoading={isLoading}
+              isSending={false}
+              readOnly
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedSessionPage;
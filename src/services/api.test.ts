@@ -0,0 +1,130 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import api, { chatAPI } from './api';
+import { authSession, AuthSessionEvent } from './authSession';
+
+// The server accepts exactly one access token at a time
+let validToken = 'fresh-token';
+let refreshHandler: jest.Mock<Promise<AxiosResponse>, [InternalAxiosRequestConfig]>;
+let apiHandler: jest.Mock<Promise<AxiosResponse>, [InternalAxiosRequestConfig]>;
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: any = {}): Promise<AxiosResponse> => {
+  const response = { data, status, statusText: String(status), headers: {}, config } as AxiosResponse;
+  return status < 400
+    ? Promise.resolve(response)
+    : Promise.reject(new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, null, response));
+};
+
+const checkToken = (config: InternalAxiosRequestConfig) =>
+  respond(config, config.headers.Authorization === `Bearer ${validToken}` ? 200 : 401, { ok: true });
+
+const issueToken = (config: InternalAxiosRequestConfig) =>
+  respond(config, 200, { access_token: validToken, refresh_token: 'rotated-refresh' });
+
+let events: AuthSessionEvent[];
+let unsubscribe: () => void;
+
+beforeEach(() => {
+  localStorage.clear();
+  authSession.save('stale-token', 'refresh-token');
+  validToken = 'fresh-token';
+
+  apiHandler = jest.fn(checkToken);
+  refreshHandler = jest.fn(issueToken);
+  api.defaults.adapter = apiHandler;
+  axios.defaults.adapter = refreshHandler; // refreshAccessToken posts with plain axios
+
+  events = [];
+  unsubscribe = authSession.subscribe(event => events.push(event));
+});
+
+afterEach(() => {
+  unsubscribe();
+});
+
+describe('api 401 handling', () => {
+  it('refreshes the access token and replays the request', async () => {
+    const response = await api.get('/chat/sessions');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(refreshHandler.mock.calls[0][0].data)).toEqual({ refresh_token: 'refresh-token' });
+    expect(authSession.getAccessToken()).toBe('fresh-token');
+    expect(authSession.getRefreshToken()).toBe('rotated-refresh');
+    expect(events).toEqual([{ type: 'refreshed', accessToken: 'fresh-token' }]);
+  });
+
+  it('queues concurrent 401s on a single refresh', async () => {
+    const responses = await Promise.all([
+      api.get('/chat/sessions'),
+      api.get('/system/config'),
+      api.get('/chat/sessions/1'),
+    ]);
+
+    expect(responses.map(r => r.status)).toEqual([200, 200, 200]);
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(apiHandler).toHaveBeenCalledTimes(6);
+  });
+
+  it('resends without refreshing when a newer token was stored meanwhile', async () => {
+    // Another tab (or an earlier refresh) stores the new token while this request is in flight
+    apiHandler.mockImplementationOnce(config => {
+      authSession.save('fresh-token');
+      return respond(config, 401);
+    });
+
+    const response = await api.get('/chat/sessions');
+
+    expect(response.status).toBe(200);
+    expect(refreshHandler).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the refresh is rejected', async () => {
+    refreshHandler.mockImplementation(config => respond(config, 401));
+
+    await expect(api.get('/chat/sessions')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(events).toEqual([{ type: 'expired' }]);
+  });
+
+  it('keeps the session when another tab rotated the refresh token first', async () => {
+    refreshHandler.mockImplementation(config => {
+      authSession.save('fresh-token', 'other-tab-refresh');
+      return respond(config, 401);
+    });
+
+    const response = await api.get('/chat/sessions');
+
+    expect(response.status).toBe(200);
+    expect(events).toEqual([]);
+    expect(authSession.getRefreshToken()).toBe('other-tab-refresh');
+  });
+
+  it('ends the session when even the refreshed token is rejected', async () => {
+    validToken = 'never-issued';
+    refreshHandler.mockImplementation(config => respond(config, 200, { access_token: 'fresh-token' }));
+
+    await expect(api.get('/chat/sessions')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([{ type: 'refreshed', accessToken: 'fresh-token' }, { type: 'expired' }]);
+  });
+
+  it('does not refresh for bad credentials on auth endpoints', async () => {
+    await expect(api.post('/users/login', { email: 'a@b.c', password: 'x' })).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refreshHandler).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+  });
+});
+
+describe('shared sessions', () => {
+  it('are fetched without the viewer\'s token and never end their session', async () => {
+    refreshHandler.mockImplementation(config => respond(config, 401));
+
+    await expect(chatAPI.getSharedSession('share-1')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(refreshHandler.mock.calls[0][0].url).toMatch(/\/chat\/shared\/share-1$/);
+    expect(refreshHandler.mock.calls[0][0].headers.Authorization).toBeUndefined();
+    expect(authSession.getAccessToken()).toBe('stale-token');
+    expect(events).toEqual([]);
+  });
+});
@@ -1,18 +1,94 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { 
   AuthResponse, 
+  RefreshTokenResponse,
   LoginRequest, 
   SignupRequest,
+  SignupResponse,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  ResendVerificationRequest,
   ChatSession,
   ChatMessage,
   SendMessageRequest,
+  SaveStoppedAnswerRequest,
   CreateChatSessionRequest,
+  UpdateChatSessionRequest,
+  ImportChatSessionRequest,
+  SharedChatSession,
+  SubmitFeedbackRequest,
+  AnswerMetrics,
+  FeedbackSummary,
+  MessageSearchResult,
   SystemHealth,
   SystemConfig,
   IngestNewsRequest,
   IngestRSSRequest
 } from '../types';
 import config from '../config';
+import { authSession } from './authSession';
+
+// Endpoints where a 401 means bad credentials, not an expired access token
+const AUTH_ENDPOINTS = [
+  '/users/login',
+  '/users/signup',
+  '/users/refresh',
+  '/users/forgot-password',
+  '/users/reset-password',
+  '/users/verify-email',
+  '/users/resend-verification',
+];
+
+const REFRESH_LOCK = 'voosh-token-refresh';
+
+let refreshPromise: Promise<string> | null = null;
+
+// A token stored by another tab since `staleToken` was read, if any
+const newerStoredToken = (staleToken: string | null): string | null => {
+  const current = authSession.getAccessToken();
+  return current && current !== staleToken ? current : null;
+};
+
+// Runs the refresh while holding a lock shared by every tab, so tabs never spend the same
+// (rotating) refresh token twice. Browsers without the Web Locks API refresh unguarded.
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  navigator.locks ? navigator.locks.request(REFRESH_LOCK, task) : task();
+
+// Single-flight refresh: every caller in this tab during a refresh waits on the same request,
+// and a tab that waited on another tab's refresh reuses the token it stored.
+// Uses plain axios so a failing refresh can't re-enter the 401 handling below.
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const staleToken = authSession.getAccessToken();
+    refreshPromise = withRefreshLock(async () => {
+      const storedToken = newerStoredToken(staleToken);
+      if (storedToken) return storedToken;
+
+      const refreshToken = authSession.getRefreshToken();
+      if (!refreshToken) throw new Error('No refresh token');
+
+      try {
+        const response: AxiosResponse<RefreshTokenResponse> = await axios.post(
+          `${config.API_BASE_URL}/users/refresh`,
+          { refresh_token: refreshToken },
+          { timeout: config.API_TIMEOUT }
+        );
+        authSession.save(response.data.access_token, response.data.refresh_token);
+        authSession.notify({ type: 'refreshed', accessToken: response.data.access_token });
+        return response.data.access_token;
+      } catch (error) {
+        // Without locks another tab may have rotated the refresh token under us; its token is still good
+        const rotatedToken = newerStoredToken(staleToken);
+        if (rotatedToken) return rotatedToken;
+        throw error;
+      }
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
 
 // Create axios instance with base configuration
 const createApiInstance = (): AxiosInstance => {
@@ -27,7 +103,7 @@ const createApiInstance = (): AxiosInstance => {
   // Request interceptor to add auth token
   instance.interceptors.request.use(
     (config) => {
-      const token = localStorage.getItem('access_token');
+      const token = authSession.getAccessToken();
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
@@ -38,17 +114,35 @@ const createApiInstance = (): AxiosInstance => {
     }
   );
 
-  // Response interceptor to handle auth errors
+  // Response interceptor: on 401, refresh the access token once and replay the request.
+  // Requests failing while a refresh is in flight queue on it and are replayed together.
   instance.interceptors.response.use(
     (response) => response,
-    (error) => {
-      if (error.response?.status === 401) {
-        // Clear token and redirect to login
-        localStorage.removeItem('access_token');
-        localStorage.removeItem('user');
-        window.location.href = '/login';
+    async (error) => {
+      const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+      const isAuthEndpoint = AUTH_ENDPOINTS.some(path => request?.url?.startsWith(path));
+
+      if (error.response?.status !== 401 || !request || isAuthEndpoint) {
+        return Promise.reject(error);
+      }
+      if (request._retried) {
+        // Even a fresh token was rejected
+        authSession.notify({ type: 'expired' });
+        return Promise.reject(error);
+      }
+
+      try {
+        // The request went out before a refresh (here or in another tab) finished: just resend it
+        const usedToken = String(request.headers.Authorization || '').replace(/^Bearer /, '') || null;
+        const token = newerStoredToken(usedToken) || await refreshAccessToken();
+        request._retried = true;
+        request.headers.Authorization = `Bearer ${token}`;
+        return instance(request);
+      } catch (refreshError) {
+        // AuthContext clears the session and the router sends the user to /login, keeping their page
+        authSession.notify({ type: 'expired' });
+        return Promise.reject(error);
       }
-      return Promise.reject(error);
     }
   );
 
@@ -64,23 +158,38 @@ export const authAPI = {
     return response.data;
   },
 
-  signup: async (data: SignupRequest): Promise<AuthResponse> => {
-    const response: AxiosResponse<AuthResponse> = await api.post('/users/signup', data);
+  signup: async (data: SignupRequest): Promise<SignupResponse> => {
+    const response: AxiosResponse<SignupResponse> = await api.post('/users/signup', data);
     return response.data;
   },
 
+  // Always succeeds for well-formed emails so it can't be used to find out who has an account
+  requestPasswordReset: async (data: ForgotPasswordRequest): Promise<void> => {
+    await api.post('/users/forgot-password', data);
+  },
+
+  resetPassword: async (data: ResetPasswordRequest): Promise<void> => {
+    await api.post('/users/reset-password', data);
+  },
+
+  verifyEmail: async (data: VerifyEmailRequest): Promise<void> => {
+    await api.post('/users/verify-email', data);
+  },
+
+  resendVerification: async (data: ResendVerificationRequest): Promise<void> => {
+    await api.post('/users/resend-verification', data);
+  },
+
   logout: () => {
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('user');
+    authSession.clear();
   },
 
   getCurrentUser: () => {
-    const userStr = localStorage.getItem('user');
-    return userStr ? JSON.parse(userStr) : null;
+    return authSession.getUser();
   },
 
   isAuthenticated: (): boolean => {
-    return !!localStorage.getItem('access_token');
+    return !!authSession.getAccessToken();
   },
 };
 
@@ -102,6 +211,44 @@ export const chatAPI = {
     return response.data;
   },
 
+  updateSession: async (sessionId: string, data: UpdateChatSessionRequest): Promise<ChatSession> => {
+    const response: AxiosResponse<ChatSession> = await api.patch(`/chat/sessions/${sessionId}`, data);
+    return response.data;
+  },
+
+  // Asks the model for a short title summarising the session's first exchange
+  generateSessionTitle: async (sessionId: string): Promise<{ title: string }> => {
+    const response = await api.post(`/chat/sessions/${sessionId}/title`);
+    return response.data;
+  },
+
+  // Creates a new session from a previously exported one
+  importSession: async (data: ImportChatSessionRequest): Promise<ChatSession> => {
+    const response: AxiosResponse<ChatSession> = await api.post('/chat/sessions/import', data);
+    return response.data;
+  },
+
+  // Read-only links; creating a link again returns the active token rather than a new one
+  shareSession: async (sessionId: string): Promise<{ shareToken: string }> => {
+    const response = await api.post(`/chat/sessions/${sessionId}/share`);
+    return response.data;
+  },
+
+  revokeShare: async (sessionId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/chat/sessions/${sessionId}/share`);
+    return response.data;
+  },
+
+  // Public endpoint, no account needed. Uses plain axios: a stale token in the viewer's browser must
+  // not start a refresh that could sign them out just for opening a link.
+  getSharedSession: async (shareToken: string): Promise<SharedChatSession> => {
+    const response: AxiosResponse<SharedChatSession> = await axios.get(
+      `${config.API_BASE_URL}/chat/shared/${shareToken}`,
+      { timeout: config.API_TIMEOUT }
+    );
+    return response.data;
+  },
+
   deleteSession: async (sessionId: string): Promise<{ message: string }> => {
     const response = await api.delete(`/chat/sessions/${sessionId}`);
     return response.data;
@@ -113,8 +260,39 @@ export const chatAPI = {
   },
 
   // Messaging
-  sendMessage: async (data: SendMessageRequest): Promise<ChatMessage> => {
-    const response: AxiosResponse<ChatMessage> = await api.post('/chat/message', data);
+  sendMessage: async (data: SendMessageRequest, signal?: AbortSignal): Promise<ChatMessage> => {
+    const response: AxiosResponse<ChatMessage> = await api.post('/chat/message', data, { signal });
+    return response.data;
+  },
+
+  // Returns the stored answer (status 'stopped'); its parentId is the server's id for the question
+  saveStoppedAnswer: async (sessionId: string, data: SaveStoppedAnswerRequest): Promise<ChatMessage> => {
+    const response: AxiosResponse<ChatMessage> = await api.post(`/chat/sessions/${sessionId}/messages/stopped`, data);
+    return response.data;
+  },
+
+  // Full-text search across all of the user's sessions
+  searchMessages: async (query: string, limit = 20): Promise<MessageSearchResult[]> => {
+    const response: AxiosResponse<MessageSearchResult[]> = await api.get('/chat/messages/search', {
+      params: { q: query, limit },
+    });
+    return response.data;
+  },
+
+  // Timings measured while the answer streamed, stored so they show up in history
+  saveMessageMetrics: async (messageId: string, metrics: AnswerMetrics): Promise<{ message: string }> => {
+    const response = await api.put(`/chat/messages/${messageId}/metrics`, metrics);
+    return response.data;
+  },
+
+  // Answer feedback
+  submitFeedback: async (messageId: string, data: SubmitFeedbackRequest): Promise<{ message: string }> => {
+    const response = await api.post(`/chat/messages/${messageId}/feedback`, data);
+    return response.data;
+  },
+
+  getFeedbackSummary: async (): Promise<FeedbackSummary> => {
+    const response: AxiosResponse<FeedbackSummary> = await api.get('/chat/feedback/summary');
     return response.data;
   },
 
@@ -0,0 +1,74 @@
+import { getTokenExpiry, scheduleTokenRefresh } from './authSession';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unsigned JWT expiring at `expiresAt` (ms)
+const jwt = (expiresAt: number) =>
+  ['header', btoa(JSON.stringify({ exp: Math.floor(expiresAt / 1000) })), 'signature'].join('.');
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2024-05-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('getTokenExpiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(getTokenExpiry(jwt(Date.now() + DAY_MS))).toBe(Date.now() + DAY_MS);
+  });
+
+  it('is null for tokens it cannot read', () => {
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+  });
+});
+
+describe('scheduleTokenRefresh', () => {
+  it('refreshes a minute before the token expires', () => {
+    const refresh = jest.fn();
+    scheduleTokenRefresh(jwt(Date.now() + 10 * 60 * 1000), refresh);
+
+    jest.advanceTimersByTime(9 * 60 * 1000 - 1);
+    expect(refresh).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for long-lived tokens instead of refreshing at once', () => {
+    const refresh = jest.fn();
+    scheduleTokenRefresh(jwt(Date.now() + 60 * DAY_MS), refresh);
+
+    jest.advanceTimersByTime(59 * DAY_MS);
+    expect(refresh).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(DAY_MS);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes right away when the token is about to expire', () => {
+    const refresh = jest.fn();
+    scheduleTokenRefresh(jwt(Date.now() + 1000), refresh);
+
+    jest.advanceTimersByTime(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('never refreshes tokens without an expiry', () => {
+    const refresh = jest.fn();
+    scheduleTokenRefresh('opaque-token', refresh);
+
+    jest.advanceTimersByTime(365 * DAY_MS);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('stops when cancelled', () => {
+    const refresh = jest.fn();
+    const cancel = scheduleTokenRefresh(jwt(Date.now() + 60 * DAY_MS), refresh);
+
+    jest.advanceTimersByTime(30 * DAY_MS);
+    cancel();
+    jest.advanceTimersByTime(60 * DAY_MS);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { User } from '../types';
+
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const USER_KEY = 'user';
+
+export type AuthSessionEvent =
+  | { type: 'refreshed'; accessToken: string }
+  | { type: 'expired' }
+  | { type: 'signedIn'; accessToken: string; user: User } // in another tab
+  | { type: 'signedOut' }; // in another tab
+
+const listeners = new Set<(event: AuthSessionEvent) => void>();
+
+// Auth data in localStorage, plus a channel telling AuthContext about refreshes and expiry
+// that happen inside the API client
+export const authSession = {
+  getAccessToken: (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  getUser: (): User | null => {
+    const userStr = localStorage.getItem(USER_KEY);
+    return userStr ? JSON.parse(userStr) : null;
+  },
+
+  save: (accessToken: string, refreshToken?: string, user?: User) => {
+    // Servers that rotate refresh tokens send a new one; others keep the existing one valid
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    if (user) localStorage.setItem(USER_KEY, JSON.stringify(user));
+    // Written last: other tabs react to this key and expect the rest to be in place
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  },
+
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  },
+
+  subscribe: (listener: (event: AuthSessionEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  notify: (event: AuthSessionEvent) => {
+    listeners.forEach(listener => listener(event));
+  },
+};
+
+// Turns other tabs' login, logout and refreshes into events; `storage` never fires in the tab that wrote
+export const watchOtherTabs = () => {
+  const handleStorage = (event: StorageEvent) => {
+    // A null key means localStorage.clear() in another tab
+    if (event.key !== ACCESS_TOKEN_KEY && event.key !== null) return;
+
+    const accessToken = authSession.getAccessToken();
+    if (!accessToken) {
+      authSession.notify({ type: 'signedOut' });
+      return;
+    }
+    if (event.oldValue) {
+      authSession.notify({ type: 'refreshed', accessToken });
+      return;
+    }
+    try {
+      const user = authSession.getUser();
+      if (user) authSession.notify({ type: 'signedIn', accessToken, user });
+    } catch (error) {
+      console.error('Error reading user from another tab:', error);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+  };
+};
+
+// Reads the `exp` claim (seconds) of a JWT without verifying it; null when absent or unreadable
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { exp } = JSON.parse(json);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Longest delay setTimeout honours; larger values fire immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Calls `refresh` shortly before the token expires, waiting in steps when that is further away than a
+// single timer can wait. Tokens without an expiry are never refreshed. Returns a cancel function.
+export const scheduleTokenRefresh = (token: string, refresh: () => void): (() => void) => {
+  const expiry = getTokenExpiry(token);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const schedule = () => {
+    if (!expiry) return;
+    const delay = Math.max(0, expiry - Date.now() - REFRESH_MARGIN_MS);
+    timer = setTimeout(delay > MAX_TIMER_DELAY_MS ? schedule : refresh, Math.min(delay, MAX_TIMER_DELAY_MS));
+  };
+
+  schedule();
+  return () => clearTimeout(timer);
+};
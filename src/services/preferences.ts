@@ -0,0 +1,46 @@
+import { UserPreferences } from '../types';
+
+const PREFERENCES_KEY = 'user_preferences';
+const SOURCE_EXPANSION_KEY = 'source_expansion';
+const MAX_REMEMBERED_MESSAGES = 500;
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  sourceDisplay: 'expanded',
+  sourceTopN: 3,
+};
+
+const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch (error) {
+    localStorage.removeItem(key);
+    return fallback;
+  }
+};
+
+// User settings kept in localStorage next to the auth data
+export const preferencesStorage = {
+  getPreferences: (): UserPreferences => ({
+    ...DEFAULT_PREFERENCES,
+    ...readJSON<Partial<UserPreferences>>(PREFERENCES_KEY, {}),
+  }),
+
+  savePreferences: (preferences: UserPreferences) => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  },
+
+  // Sources the user explicitly opened or closed, by message id
+  getSourceExpansion: (): Record<string, boolean> => readJSON<Record<string, boolean>>(SOURCE_EXPANSION_KEY, {}),
+
+  setSourceExpansion: (messageId: string, expanded: boolean) => {
+    const expansion = preferencesStorage.getSourceExpansion();
+    delete expansion[messageId];
+    expansion[messageId] = expanded;
+
+    // Keep only the most recent entries (object keys keep insertion order)
+    const ids = Object.keys(expansion);
+    ids.slice(0, Math.max(0, ids.length - MAX_REMEMBERED_MESSAGES)).forEach(id => delete expansion[id]);
+    localStorage.setItem(SOURCE_EXPANSION_KEY, JSON.stringify(expansion));
+  },
+};
@@ -0,0 +1,33 @@
+import { ChatSession } from '../types';
+
+export type SessionSyncEvent =
+  | { type: 'upserted'; session: ChatSession }
+  | { type: 'deleted'; sessionId: string };
+
+const CHANNEL_NAME = 'voosh-chat-sessions';
+
+// Older browsers without BroadcastChannel simply don't sync; each tab still works on its own
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+// Tell other tabs about a session created, imported, changed or deleted here.
+// Messages stay out of the payload: other tabs only need the sidebar entry and reload the rest on open.
+export function broadcastSessionChange(event: SessionSyncEvent) {
+  if (!channel) return;
+  if (event.type === 'upserted') {
+    const { messages, ...session } = event.session;
+    channel.postMessage({ type: 'upserted', session });
+  } else {
+    channel.postMessage(event);
+  }
+}
+
+// Changes made in other tabs; a tab never receives its own messages
+export function subscribeSessionChanges(listener: (event: SessionSyncEvent) => void) {
+  if (!channel) return () => {};
+  const handleMessage = (event: MessageEvent<SessionSyncEvent>) => listener(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => {
+    channel.removeEventListener('message', handleMessage);
+  };
+}
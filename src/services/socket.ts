@@ -2,15 +2,18 @@ import { io, Socket } from 'socket.io-client';
 import config from '../config';
 
 let socket: Socket | null = null;
+let currentToken: string | undefined;
 
 export interface PipelineEvent {
   sessionId?: string;
+  requestId?: string; // SendMessageRequest.requestId of the question being answered
   query?: string;
   hits?: number;
   rawHits?: number;
   passages?: number;
   warning?: string;
   error?: string;
+  token?: string; // text fragment carried by ai_token
   ts: number;
 }
 
@@ -23,13 +26,64 @@ export type PipelineEventType =
   | 'ai_token'
   | 'ai_done';
 
+// 'offline' means we have stopped retrying (or the browser has no network) until reconnectSocket is called
+export type SocketStatus = 'connected' | 'reconnecting' | 'offline';
+
+let status: SocketStatus = 'offline';
+let hasConnected = false;
+const statusListeners = new Set<(status: SocketStatus) => void>();
+const reconnectListeners = new Set<() => void>();
+
+const setStatus = (next: SocketStatus) => {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach(listener => listener(next));
+};
+
+const handleBrowserOnline = () => reconnectSocket();
+const handleBrowserOffline = () => setStatus('offline');
+
 export function connectSocket(authToken?: string) {
-  if (socket && socket.connected) return socket;
+  if (socket) {
+    updateSocketAuth(authToken);
+    return socket;
+  }
+
+  currentToken = authToken;
   socket = io(config.SOCKET_URL, {
     path: config.SOCKET_PATH,
     transports: ['websocket'],
     auth: authToken ? { token: authToken } : undefined,
+    reconnection: true,
+    reconnectionAttempts: 10,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000,
   });
+  setStatus('reconnecting');
+
+  socket.on('connect', () => {
+    setStatus('connected');
+    // Only reconnections need to catch up; the first connection has nothing to replay
+    if (hasConnected) {
+      reconnectListeners.forEach(listener => listener());
+    }
+    hasConnected = true;
+  });
+  socket.on('disconnect', (reason) => {
+    // socket.io doesn't retry after a deliberate client disconnect (logout) or a server kick;
+    // anything else is retried automatically
+    const retried = reason !== 'io client disconnect' && reason !== 'io server disconnect';
+    setStatus(retried ? 'reconnecting' : 'offline');
+  });
+  socket.on('connect_error', () => {
+    // A handshake refused by the server's middleware (e.g. bad credentials) leaves the socket inactive
+    setStatus(socket?.active ? 'reconnecting' : 'offline');
+  });
+  socket.io.on('reconnect_attempt', () => setStatus('reconnecting'));
+  socket.io.on('reconnect_failed', () => setStatus('offline'));
+
+  window.addEventListener('online', handleBrowserOnline);
+  window.addEventListener('offline', handleBrowserOffline);
   return socket;
 }
 
@@ -37,9 +91,62 @@ export function getSocket(): Socket | null {
   return socket;
 }
 
+// The next handshake uses the new credentials; a live connection is kept so streams in flight
+// survive token refreshes. Only a socket that gave up (e.g. refused with the old token) reconnects now.
+export function updateSocketAuth(authToken?: string) {
+  if (!socket || authToken === currentToken) return;
+  currentToken = authToken;
+  socket.auth = authToken ? { token: authToken } : {};
+  if (!socket.active) {
+    setStatus('reconnecting');
+    socket.connect();
+  }
+}
+
+// Manual retry after the automatic attempts gave up
+export function reconnectSocket() {
+  if (!socket || socket.connected) return;
+  setStatus('reconnecting');
+  socket.connect();
+}
+
+export function getSocketStatus(): SocketStatus {
+  return status;
+}
+
+export function subscribeSocketStatus(listener: (status: SocketStatus) => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// Called after the connection comes back, so callers can request events they missed
+export function onSocketReconnect(listener: () => void) {
+  reconnectListeners.add(listener);
+  return () => {
+    reconnectListeners.delete(listener);
+  };
+}
+
+// Ask the backend to stop generating one answer; the request id keeps other tabs' answers in the same session running
+export function emitCancelGeneration(sessionId: string, requestId: string) {
+  socket?.emit('cancel_generation', { sessionId, requestId });
+}
+
+// Ask the backend to re-send the pipeline events of a running request emitted after `since`
+export function requestPipelineReplay(sessionId: string, requestId: string, since: number | null) {
+  socket?.emit('replay_pipeline', { sessionId, requestId, since });
+}
+
 export function disconnectSocket() {
   if (socket) {
+    window.removeEventListener('online', handleBrowserOnline);
+    window.removeEventListener('offline', handleBrowserOffline);
     socket.disconnect();
     socket = null;
+    currentToken = undefined;
+    hasConnected = false;
+    setStatus('offline');
   }
 }
@@ -7,9 +7,15 @@ export interface User {
 
 export interface AuthResponse {
   access_token: string;
+  refresh_token?: string;
   user: User;
 }
 
+export interface RefreshTokenResponse {
+  access_token: string;
+  refresh_token?: string; // present when the server rotates refresh tokens
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -21,6 +27,31 @@ export interface SignupRequest {
   password: string;
 }
 
+// Returned by signup instead of tokens when the account must confirm its email first
+export interface PendingVerificationResponse {
+  verificationRequired: true;
+  email: string;
+}
+
+export type SignupResponse = AuthResponse | PendingVerificationResponse;
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string; // from the emailed reset link
+  password: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string; // from the emailed verification link
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
+
 // Chat Types
 export interface ChatMessage {
   id: string;
@@ -28,34 +59,168 @@ export interface ChatMessage {
   content: string;
   createdAt: Date;
   contextPassages?: ContextPassage[];
+  parentId?: string | null; // previous message in the conversation tree; regenerated/edited turns share a parent
+  feedback?: MessageFeedback;
+  status?: 'streaming' | 'stopped'; // still receiving ai_token events (client-side only), or cut short by the user
+  dateRange?: DateRange; // publication window the answer's sources were restricted to
+  metrics?: AnswerMetrics;
+}
+
+// Timings come from the server timestamps on pipeline events, so client clock skew doesn't matter
+export interface AnswerMetrics {
+  embeddingMs?: number;
+  searchMs?: number;
+  timeToFirstTokenMs?: number; // from the start of the pipeline
+  generationMs?: number;
+  totalMs?: number;
+  tokenCount?: number;
 }
 
 export interface ContextPassage {
+  id?: string; // indexed chunk the passage was retrieved from
   title: string;
   source: string;
   url: string;
   score?: number;
   excerpt?: string;
   matchedTerms?: string[];
+  publishedAt?: Date;
+}
+
+// Feedback Types
+export type FeedbackRating = 'up' | 'down';
+
+export interface MessageFeedback {
+  rating?: FeedbackRating;
+  reason?: string;
+  irrelevantPassages?: string[]; // getPassageKey of the flagged contextPassages
+}
+
+export interface SubmitFeedbackRequest {
+  sessionId: string;
+  rating?: FeedbackRating;
+  reason?: string;
+  irrelevantPassages?: string[]; // same keys as MessageFeedback; the backend maps them to sources and documents
+}
+
+export interface FeedbackCounts {
+  up: number;
+  down: number;
+  irrelevant: number;
+}
+
+export interface FeedbackSummary {
+  totals: FeedbackCounts;
+  sources: (FeedbackCounts & { source: string; citations: number })[];
+  documents: (FeedbackCounts & { title: string; source: string; url?: string; citations: number })[];
+  recentReasons: { reason: string; rating: FeedbackRating; createdAt: string }[];
 }
 
 export interface ChatSession {
   id: string;
   title?: string;
+  pinned?: boolean; // listed above other sessions
+  archived?: boolean; // hidden from the main list but recoverable
+  shareToken?: string | null; // set while a read-only link to the session is active
+  scope?: SearchScope | null; // restricts retrieval for every question in the session
+  settings?: RetrievalSettings | null; // overrides the pipeline defaults for this session
+  dateRange?: DateRange | null; // publication window for the session's questions; presets stay relative
   createdAt: Date;
   updatedAt: Date;
   messages?: ChatMessage[];
 }
 
+// What was streamed before the user pressed Stop, stored as the answer to that request's question
+export interface SaveStoppedAnswerRequest {
+  requestId: string;
+  content: string; // empty when stopped before the first token
+}
+
 export interface SendMessageRequest {
   message: string;
   sessionId: string;
+  parentId?: string | null; // message the new user turn follows (branch point)
+  regenerateFromId?: string; // answer this existing user message again instead of adding a new one
+  scope?: SearchScope; // only search these sources / documents
+  dateRange?: DateRange; // only search articles published in this window
+  settings?: RetrievalSettings;
+  requestId?: string; // client-generated; echoed on the pipeline socket events this request triggers
+}
+
+export type AnswerLength = 'short' | 'medium' | 'long';
+
+// Unset fields fall back to the server's defaults
+export interface RetrievalSettings {
+  topK?: number; // context passages passed to the model
+  minScore?: number; // minimum similarity (0-1) for a passage to be used
+  answerLength?: AnswerLength;
+  model?: string; // one of SystemConfig.availableModels
+}
+
+export type DateRangePreset = '24h' | '7d' | '30d' | 'custom';
+
+// from/to are ISO timestamps; presets are resolved against the time the question is sent
+export interface DateRange {
+  preset: DateRangePreset;
+  from?: string;
+  to?: string;
+}
+
+// Documents keep their title so the scope can be shown without refetching the document list
+export interface SearchScope {
+  sources: string[];
+  documents: { id: string; title: string }[];
+}
+
+export interface MessageSearchResult {
+  sessionId: string;
+  sessionTitle?: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  snippet: string; // excerpt of the message around the match
+  createdAt: Date;
 }
 
 export interface CreateChatSessionRequest {
   title?: string;
 }
 
+export interface UpdateChatSessionRequest {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  scope?: SearchScope | null;
+  settings?: RetrievalSettings | null;
+  dateRange?: DateRange | null;
+}
+
+// Public, read-only view of a session opened through a share link
+export interface SharedChatSession {
+  title?: string;
+  ownerName?: string;
+  createdAt: Date;
+  sharedAt: Date;
+  messages: ChatMessage[];
+}
+
+// Messages keep their exported ids so the server can rebuild parentId links with fresh ids
+export interface ImportChatSessionRequest {
+  title?: string;
+  createdAt?: Date;
+  scope?: SearchScope | null;
+  settings?: RetrievalSettings | null;
+  dateRange?: DateRange | null;
+  messages: ChatMessage[]; // parents before children
+}
+
+// Preference Types
+export type SourceDisplayMode = 'expanded' | 'collapsed' | 'top';
+
+export interface UserPreferences {
+  sourceDisplay: SourceDisplayMode; // how answer sources start out before the user toggles them
+  sourceTopN: number; // passages shown when sourceDisplay is 'top'
+}
+
 // News Types
 export interface NewsArticle {
   title: string;
@@ -89,7 +254,8 @@ export interface SystemHealth {
 export interface SystemConfig {
   embeddingModel: string;
   embeddingDimensions: number;
-  aiModel: string;
+  aiModel: string; // default model
+  availableModels?: string[]; // models a session may switch to
   vectorDatabase: string;
   features: string[];
 }
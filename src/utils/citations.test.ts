@@ -0,0 +1,74 @@
+import { CITATION_HREF_PREFIX, parseCitationHref, remarkCitations, replaceCitationMarkers } from './citations';
+
+const text = (value: string) => ({ type: 'text', value });
+const citation = (n: number) => ({ type: 'link', url: `${CITATION_HREF_PREFIX}${n}`, children: [text(String(n))] });
+const paragraph = (...children: any[]) => ({ type: 'root', children: [{ type: 'paragraph', children }] });
+
+const transform = (tree: any, passageCount: number) => {
+  remarkCitations({ passageCount })(tree);
+  return tree;
+};
+
+describe('remarkCitations', () => {
+  it('turns markers into citation links', () => {
+    expect(transform(paragraph(text('Rates rose [1] and fell [2].')), 2)).toEqual(
+      paragraph(text('Rates rose '), citation(1), text(' and fell '), citation(2), text('.'))
+    );
+  });
+
+  it('splits grouped markers into one link per passage', () => {
+    expect(transform(paragraph(text('See [1, 3]')), 3)).toEqual(paragraph(text('See '), citation(1), citation(3)));
+  });
+
+  it('leaves out-of-range markers as plain text', () => {
+    expect(transform(paragraph(text('See [0] and [4] and [2, 5]')), 3)).toEqual(
+      paragraph(text('See [0] and [4] and [2, 5]'))
+    );
+  });
+
+  it('does nothing when the answer has no passages', () => {
+    expect(transform(paragraph(text('See [1]')), 0)).toEqual(paragraph(text('See [1]')));
+  });
+
+  it('does not rewrite link text or inline code', () => {
+    const tree = paragraph(
+      { type: 'link', url: 'https://example.com', children: [text('[1]')] },
+      { type: 'inlineCode', value: 'arr[1]' }
+    );
+    expect(transform(JSON.parse(JSON.stringify(tree)), 2)).toEqual(tree);
+  });
+
+  it('rewrites markers inside nested formatting', () => {
+    const tree = { type: 'root', children: [{ type: 'emphasis', children: [text('[2]')] }] };
+    expect(transform(tree, 2)).toEqual({ type: 'root', children: [{ type: 'emphasis', children: [citation(2)] }] });
+  });
+});
+
+describe('replaceCitationMarkers', () => {
+  const footnotes = (numbers: number[]) => numbers.map(n => `[^${n}]`).join('');
+
+  it('renders valid markers', () => {
+    expect(replaceCitationMarkers('A [1], B [1,2].', 2, footnotes)).toBe('A [^1], B [^1][^2].');
+  });
+
+  it('keeps out-of-range markers', () => {
+    expect(replaceCitationMarkers('A [3] B [0]', 2, footnotes)).toBe('A [3] B [0]');
+  });
+
+  it('leaves fenced code alone', () => {
+    const content = 'See [1].\n```js\nconst x = arr[1];\n```\nAnd [2].';
+    expect(replaceCitationMarkers(content, 2, footnotes)).toBe('See [^1].\n```js\nconst x = arr[1];\n```\nAnd [^2].');
+  });
+});
+
+describe('parseCitationHref', () => {
+  it('reads the passage number', () => {
+    expect(parseCitationHref(`${CITATION_HREF_PREFIX}4`)).toBe(4);
+  });
+
+  it('ignores other links', () => {
+    expect(parseCitationHref('https://example.com/#cite-1')).toBeNull();
+    expect(parseCitationHref(`${CITATION_HREF_PREFIX}x`)).toBeNull();
+    expect(parseCitationHref(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// Markers such as [1] or [1, 3] that the model uses to cite context passages
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Citation links are rendered as in-page anchors so react-markdown's URL sanitising keeps them
+export const CITATION_HREF_PREFIX = '#cite-';
+
+// Minimal mdast shape; only text, link and parent nodes are touched
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+interface CitationOptions {
+  passageCount: number;
+}
+
+// Skip nodes whose text must not be rewritten (existing links and their definitions)
+const SKIPPED_NODES = ['link', 'linkReference', 'definition'];
+
+const splitCitations = (text: string, passageCount: number): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let lastIndex = 0;
+
+  text.replace(CITATION_PATTERN, (match: string, group: string, offset: number) => {
+    const numbers = group.split(',').map(n => parseInt(n.trim(), 10));
+    // Leave markers that don't point at a known passage as plain text
+    if (numbers.some(n => n < 1 || n > passageCount)) return match;
+
+    if (offset > lastIndex) {
+      nodes.push({ type: 'text', value: text.slice(lastIndex, offset) });
+    }
+    numbers.forEach(n => {
+      nodes.push({
+        type: 'link',
+        url: `${CITATION_HREF_PREFIX}${n}`,
+        children: [{ type: 'text', value: String(n) }],
+      });
+    });
+    lastIndex = offset + match.length;
+    return match;
+  });
+
+  if (nodes.length === 0) return [{ type: 'text', value: text }];
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return nodes;
+};
+
+const transformNode = (node: MarkdownNode, passageCount: number): void => {
+  if (!node.children || SKIPPED_NODES.indexOf(node.type) !== -1) return;
+
+  node.children = node.children.reduce<MarkdownNode[]>((acc, child) => {
+    if (child.type === 'text' && child.value) {
+      return acc.concat(splitCitations(child.value, passageCount));
+    }
+    transformNode(child, passageCount);
+    acc.push(child);
+    return acc;
+  }, []);
+};
+
+// Remark plugin turning citation markers into links; code spans and blocks are not text nodes, so they stay untouched
+export const remarkCitations = ({ passageCount }: CitationOptions) => (tree: MarkdownNode) => {
+  if (passageCount > 0) {
+    transformNode(tree, passageCount);
+  }
+};
+
+// Rewrites valid citation markers in plain Markdown text, leaving fenced code blocks alone
+export const replaceCitationMarkers = (
+  text: string,
+  passageCount: number,
+  render: (numbers: number[]) => string
+): string =>
+  text
+    .split(/(```[\s\S]*?```)/)
+    .map((part, index) => {
+      if (index % 2 === 1) return part; // fenced code
+      return part.replace(CITATION_PATTERN, (match: string, group: string) => {
+        const numbers = group.split(',').map(n => parseInt(n.trim(), 10));
+        return numbers.some(n => n < 1 || n > passageCount) ? match : render(numbers);
+      });
+    })
+    .join('');
+
+export const parseCitationHref = (href?: string): number | null => {
+  if (!href || !href.startsWith(CITATION_HREF_PREFIX)) return null;
+  const number = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+  return isNaN(number) ? null : number;
+};
@@ -0,0 +1,71 @@
+import { customDateRange, formatDateRange, resolveDateRange, toDateInputValue } from './dateRange';
+
+const NOW = new Date('2024-05-10T12:00:00.000Z');
+
+describe('resolveDateRange', () => {
+  it('fixes presets relative to the given time', () => {
+    expect(resolveDateRange({ preset: '24h' }, NOW)).toEqual({
+      preset: '24h',
+      from: '2024-05-09T12:00:00.000Z',
+      to: '2024-05-10T12:00:00.000Z',
+    });
+    expect(resolveDateRange({ preset: '7d' }, NOW).from).toBe('2024-05-03T12:00:00.000Z');
+    expect(resolveDateRange({ preset: '30d' }, NOW).from).toBe('2024-04-10T12:00:00.000Z');
+  });
+
+  it('ignores stale bounds stored with a preset', () => {
+    const resolved = resolveDateRange({ preset: '7d', from: '2020-01-01T00:00:00.000Z', to: '2020-01-08T00:00:00.000Z' }, NOW);
+    expect(resolved.to).toBe(NOW.toISOString());
+  });
+
+  it('keeps custom ranges as they are', () => {
+    const custom = { preset: 'custom' as const, from: '2024-01-01T00:00:00.000Z' };
+    expect(resolveDateRange(custom, NOW)).toBe(custom);
+  });
+});
+
+describe('customDateRange', () => {
+  it('spans from the start of the first day to the end of the last day', () => {
+    const range = customDateRange('2024-03-01', '2024-03-05')!;
+    const from = new Date(range.from!);
+    const to = new Date(range.to!);
+
+    expect(range.preset).toBe('custom');
+    expect([from.getHours(), from.getMinutes(), from.getMilliseconds()]).toEqual([0, 0, 0]);
+    expect([to.getHours(), to.getMinutes(), to.getMilliseconds()]).toEqual([23, 59, 999]);
+    expect(toDateInputValue(range.from)).toBe('2024-03-01');
+    expect(toDateInputValue(range.to)).toBe('2024-03-05');
+  });
+
+  it('allows open-ended ranges', () => {
+    expect(customDateRange('2024-03-01', '')?.to).toBeUndefined();
+    expect(customDateRange('', '2024-03-05')?.from).toBeUndefined();
+  });
+
+  it('is null without any bound', () => {
+    expect(customDateRange('', '')).toBeNull();
+  });
+});
+
+describe('toDateInputValue', () => {
+  it('is empty without a date', () => {
+    expect(toDateInputValue(undefined)).toBe('');
+  });
+});
+
+describe('formatDateRange', () => {
+  it('uses the preset label', () => {
+    expect(formatDateRange({ preset: '7d', from: 'ignored', to: 'ignored' })).toBe('Last 7 days');
+  });
+
+  it('describes custom bounds', () => {
+    const from = '2024-03-01T00:00:00.000Z';
+    const to = '2024-03-05T00:00:00.000Z';
+    const format = (iso: string) => new Date(iso).toLocaleDateString();
+
+    expect(formatDateRange({ preset: 'custom', from, to })).toBe(`${format(from)} – ${format(to)}`);
+    expect(formatDateRange({ preset: 'custom', from })).toBe(`Since ${format(from)}`);
+    expect(formatDateRange({ preset: 'custom', to })).toBe(`Until ${format(to)}`);
+    expect(formatDateRange({ preset: 'custom' })).toBe('Any time');
+  });
+});
@@ -0,0 +1,49 @@
+import { DateRange, DateRangePreset } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DATE_RANGE_PRESETS: { value: Exclude<DateRangePreset, 'custom'>; label: string; hours: number }[] = [
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 7 * 24 },
+  { value: '30d', label: 'Last 30 days', hours: 30 * 24 },
+];
+
+// Fixes a preset to absolute timestamps so the server and the answer record the same window
+export const resolveDateRange = (range: DateRange, now = new Date()): DateRange => {
+  const preset = DATE_RANGE_PRESETS.find(p => p.value === range.preset);
+  if (!preset) return range;
+  return {
+    preset: range.preset,
+    from: new Date(now.getTime() - preset.hours * HOUR_MS).toISOString(),
+    to: now.toISOString(),
+  };
+};
+
+// Custom ranges come from <input type="date">; the end date includes the whole day
+export const customDateRange = (fromDate: string, toDate: string): DateRange | null => {
+  if (!fromDate && !toDate) return null;
+  return {
+    preset: 'custom',
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+};
+
+// Inverse of customDateRange, for filling the date inputs back in
+export const toDateInputValue = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const formatDateRange = (range: DateRange): string => {
+  const preset = DATE_RANGE_PRESETS.find(p => p.value === range.preset);
+  if (preset) return preset.label;
+
+  const format = (iso: string) => new Date(iso).toLocaleDateString();
+  if (range.from && range.to) return `${format(range.from)} – ${format(range.to)}`;
+  if (range.from) return `Since ${format(range.from)}`;
+  if (range.to) return `Until ${format(range.to)}`;
+  return 'Any time';
+};
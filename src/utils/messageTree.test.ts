@@ -0,0 +1,93 @@
+import { ChatMessage } from '../types';
+import {
+  ROOT_KEY,
+  getActiveBranch,
+  getSibling,
+  getSiblingInfo,
+  normalizeMessageTree,
+  selectBranchTo,
+} from './messageTree';
+
+const message = (id: string, parentId: string | null | undefined, role: ChatMessage['role'] = 'user'): ChatMessage => ({
+  id,
+  role,
+  content: id,
+  createdAt: new Date('2024-05-01T10:00:00.000Z'),
+  parentId,
+});
+
+// q1 ─ a1 ─ q2 ─ a2
+//    └ a1b      └ q2b ─ a2b     (a1b regenerated a1; q2b edited q2)
+const tree: ChatMessage[] = [
+  message('q1', null),
+  message('a1', 'q1', 'assistant'),
+  message('q2', 'a1'),
+  message('a2', 'q2', 'assistant'),
+  message('a1b', 'q1', 'assistant'),
+  message('q2b', 'a1'),
+  message('a2b', 'q2b', 'assistant'),
+];
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('normalizeMessageTree', () => {
+  it('chains messages without parentId in their stored order', () => {
+    const normalized = normalizeMessageTree([message('m1', undefined), message('m2', undefined), message('m3', undefined)]);
+    expect(normalized.map(m => m.parentId)).toEqual([null, 'm1', 'm2']);
+  });
+
+  it('leaves messages that already have a parentId untouched', () => {
+    expect(normalizeMessageTree(tree)).toEqual(tree);
+  });
+});
+
+describe('getActiveBranch', () => {
+  it('follows the latest child at every level by default', () => {
+    expect(ids(getActiveBranch(tree, {}))).toEqual(['q1', 'a1b']);
+  });
+
+  it('follows selected children', () => {
+    expect(ids(getActiveBranch(tree, { q1: 'a1' }))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(getActiveBranch(tree, { q1: 'a1', a1: 'q2' }))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('falls back to the latest child when a selection no longer exists', () => {
+    expect(ids(getActiveBranch(tree, { [ROOT_KEY]: 'deleted' }))).toEqual(['q1', 'a1b']);
+  });
+
+  it('is empty without messages', () => {
+    expect(getActiveBranch([], {})).toEqual([]);
+  });
+
+  it('stops on a parentId cycle', () => {
+    const cyclic = [message('x', 'y'), message('y', 'x'), message('root', null)];
+    expect(ids(getActiveBranch(cyclic, {}))).toEqual(['root']);
+  });
+});
+
+describe('selectBranchTo', () => {
+  it('selects every ancestor on the way to the message', () => {
+    const selections = selectBranchTo(tree, 'a2');
+    expect(selections).toEqual({ [ROOT_KEY]: 'q1', q1: 'a1', a1: 'q2', q2: 'a2' });
+    expect(ids(getActiveBranch(tree, selections))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('selects nothing for an unknown message', () => {
+    expect(selectBranchTo(tree, 'missing')).toEqual({});
+  });
+});
+
+describe('siblings', () => {
+  it('orders siblings as stored', () => {
+    expect(getSiblingInfo(tree, tree[1])).toEqual({ index: 0, count: 2 });
+    expect(getSiblingInfo(tree, tree[4])).toEqual({ index: 1, count: 2 });
+    expect(getSiblingInfo(tree, tree[0])).toEqual({ index: 0, count: 1 });
+  });
+
+  it('steps to the neighbouring sibling and stops at the ends', () => {
+    expect(getSibling(tree, tree[1], 1)?.id).toBe('a1b');
+    expect(getSibling(tree, tree[4], -1)?.id).toBe('a1');
+    expect(getSibling(tree, tree[4], 1)).toBeNull();
+    expect(getSibling(tree, tree[1], -1)).toBeNull();
+  });
+});
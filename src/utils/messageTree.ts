@@ -0,0 +1,71 @@
+import { ChatMessage } from '../types';
+
+// Selection key for messages that start the conversation (no parent)
+export const ROOT_KEY = 'root';
+
+// Chosen child per parent key; parents without an entry show their latest child
+export type BranchSelections = Record<string, string>;
+
+export interface SiblingInfo {
+  index: number;
+  count: number;
+}
+
+export const getParentKey = (message: ChatMessage): string => message.parentId ?? ROOT_KEY;
+
+// Messages stored before branching existed have no parentId: each one follows the previous message
+export const normalizeMessageTree = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((message, index) => (
+    message.parentId !== undefined
+      ? message
+      : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  ));
+
+export const getChildren = (messages: ChatMessage[], parentKey: string): ChatMessage[] =>
+  messages.filter(m => getParentKey(m) === parentKey);
+
+// Walk from the root, following the selected (or latest) child at every level
+export const getActiveBranch = (messages: ChatMessage[], selections: BranchSelections): ChatMessage[] => {
+  const branch: ChatMessage[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_KEY;
+
+  while (!visited.has(key)) {
+    visited.add(key);
+    const children = getChildren(messages, key);
+    if (children.length === 0) break;
+    const selectedId = selections[key];
+    const next = children.find(m => m.id === selectedId) || children[children.length - 1];
+    branch.push(next);
+    key = next.id;
+  }
+
+  return branch;
+};
+
+// Selections that make the branch containing `messageId` the active one
+export const selectBranchTo = (messages: ChatMessage[], messageId: string): BranchSelections => {
+  const selections: BranchSelections = {};
+  const visited = new Set<string>();
+  let message = messages.find(m => m.id === messageId);
+
+  while (message && !visited.has(message.id)) {
+    visited.add(message.id);
+    selections[getParentKey(message)] = message.id;
+    const parentId = message.parentId;
+    message = parentId ? messages.find(m => m.id === parentId) : undefined;
+  }
+
+  return selections;
+};
+
+export const getSiblingInfo = (messages: ChatMessage[], message: ChatMessage): SiblingInfo => {
+  const siblings = getChildren(messages, getParentKey(message));
+  return { index: siblings.findIndex(m => m.id === message.id), count: siblings.length };
+};
+
+export const getSibling = (messages: ChatMessage[], message: ChatMessage, offset: number): ChatMessage | null => {
+  const siblings = getChildren(messages, getParentKey(message));
+  const index = siblings.findIndex(m => m.id === message.id);
+  return siblings[index + offset] || null;
+};
@@ -0,0 +1,23 @@
+import { getPassageKey, isWebUrl } from './passages';
+
+describe('getPassageKey', () => {
+  it('prefers the server id, then the url, then source and title', () => {
+    expect(getPassageKey({ id: 'c1', title: 'T', source: 'S', url: 'https://example.com' })).toBe('c1');
+    expect(getPassageKey({ title: 'T', source: 'S', url: 'https://example.com' })).toBe('https://example.com');
+    expect(getPassageKey({ title: 'T', source: 'S', url: '' })).toBe('S|T');
+  });
+});
+
+describe('isWebUrl', () => {
+  it('accepts http and https links', () => {
+    expect(isWebUrl('https://example.com/a')).toBe(true);
+    expect(isWebUrl('http://example.com')).toBe(true);
+  });
+
+  it('rejects other schemes, relative paths and missing urls', () => {
+    expect(isWebUrl(['javascript', 'alert(1)'].join(':'))).toBe(false);
+    expect(isWebUrl('data:text/html,hi')).toBe(false);
+    expect(isWebUrl('/relative')).toBe(false);
+    expect(isWebUrl(undefined)).toBe(false);
+  });
+});
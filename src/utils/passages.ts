@@ -0,0 +1,17 @@
+import { ContextPassage } from '../types';
+
+// Stable identifier for a passage across reloads and re-ranking: the server's chunk id when it sends
+// one, otherwise the article URL, otherwise source and title
+export const getPassageKey = (passage: ContextPassage): string =>
+  passage.id || passage.url || `${passage.source}|${passage.title}`;
+
+// Passage URLs come from ingested content or imported files; only web links may become clickable
+export const isWebUrl = (url?: string): url is string => {
+  if (!url) return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+};
@@ -0,0 +1,112 @@
+import { PipelineStep, buildTimeline, buildTraceJSON, computeAnswerMetrics, formatDuration, getStageDurations } from './pipelineTrace';
+
+const step = (type: string, ts: number, info: any = {}): PipelineStep => ({ type, ts, info });
+
+const run: PipelineStep[] = [
+  step('embedding_start', 1000),
+  step('embedding_done', 1040),
+  step('search_start', 1050),
+  step('search_results', 1200, { results: [{}, {}, {}], rawHits: 12 }),
+  step('ai_start', 1210, { passages: 3 }),
+  step('ai_done', 2710),
+];
+
+describe('buildTimeline', () => {
+  it('measures offsets from the first event and durations until the next', () => {
+    const timeline = buildTimeline(run);
+    expect(timeline.map(e => e.offsetMs)).toEqual([0, 40, 50, 200, 210, 1710]);
+    expect(timeline.map(e => e.durationMs)).toEqual([40, 10, 150, 10, 1500, null]);
+  });
+
+  it('reads hit counts from numbers, lists and older field names', () => {
+    const timeline = buildTimeline([
+      step('search_results', 0, { results: [{}, {}] }),
+      step('search_results', 1, { resultCount: 5 }),
+      step('search_results', 2, { hits: 7 }),
+      step('ai_start', 3, { results: [{}] }),
+    ]);
+    expect(timeline.map(e => e.hits)).toEqual([2, 5, 7, undefined]);
+  });
+
+  it('surfaces warnings and errors', () => {
+    const [entry] = buildTimeline([step('search_results', 0, { warning: 'Index stale', error: 42 })]);
+    expect(entry.warning).toBe('Index stale');
+    expect(entry.error).toBeUndefined();
+  });
+});
+
+describe('getStageDurations', () => {
+  it('totals each stage and the whole run', () => {
+    expect(getStageDurations(run)).toEqual([
+      { label: 'Embedding', durationMs: 40 },
+      { label: 'Search', durationMs: 150 },
+      { label: 'Generation', durationMs: 1500 },
+      { label: 'Total', durationMs: 1710 },
+    ]);
+  });
+
+  it('leaves out stages that have not finished', () => {
+    expect(getStageDurations(run.slice(0, 3))).toEqual([
+      { label: 'Embedding', durationMs: 40 },
+      { label: 'Total', durationMs: 50 },
+    ]);
+  });
+
+  it('ignores an end event from before the start', () => {
+    expect(getStageDurations([step('ai_done', 5), step('ai_start', 10)])).toEqual([{ label: 'Total', durationMs: 5 }]);
+  });
+
+  it('is empty for a single event', () => {
+    expect(getStageDurations([step('embedding_start', 0)])).toEqual([]);
+  });
+});
+
+describe('computeAnswerMetrics', () => {
+  it('derives stage timings and time to first token', () => {
+    expect(computeAnswerMetrics(run, { count: 40, firstTs: 1400 })).toEqual({
+      embeddingMs: 40,
+      searchMs: 150,
+      timeToFirstTokenMs: 400,
+      generationMs: 1500,
+      totalMs: 1710,
+      tokenCount: 40,
+    });
+  });
+
+  it('prefers the token usage reported by the server', () => {
+    const steps = [...run.slice(0, -1), step('ai_done', 2710, { tokenCount: 95 })];
+    expect(computeAnswerMetrics(steps, { count: 40, firstTs: 1400 })?.tokenCount).toBe(95);
+  });
+
+  it('leaves out what was not observed', () => {
+    const metrics = computeAnswerMetrics(run.slice(0, 2), { count: 0, firstTs: null });
+    expect(metrics).toEqual({
+      embeddingMs: 40,
+      searchMs: undefined,
+      timeToFirstTokenMs: undefined,
+      generationMs: undefined,
+      totalMs: undefined,
+      tokenCount: undefined,
+    });
+  });
+
+  it('is null without pipeline events', () => {
+    expect(computeAnswerMetrics([], { count: 3, firstTs: 10 })).toBeNull();
+  });
+});
+
+describe('buildTraceJSON', () => {
+  it('includes the request, stages and raw events', () => {
+    const trace = JSON.parse(buildTraceJSON(run, { message: 'Why?', sessionId: 's1', requestId: 'r1' }));
+    expect(trace.request).toEqual({ message: 'Why?', sessionId: 's1', requestId: 'r1' });
+    expect(trace.stages).toHaveLength(4);
+    expect(trace.events).toHaveLength(run.length);
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses milliseconds below a second and seconds above', () => {
+    expect(formatDuration(42.4)).toBe('42 ms');
+    expect(formatDuration(1500)).toBe('1.50 s');
+  });
+});
@@ -0,0 +1,117 @@
+import { AnswerMetrics, SendMessageRequest } from '../types';
+
+// One pipeline socket event as received, payload kept verbatim for the trace
+export interface PipelineStep {
+  type: string;
+  ts: number;
+  info?: any;
+}
+
+// Correlates a question with its socket events; unique enough per client without relying on crypto.randomUUID
+export const createRequestId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export interface TimelineEntry {
+  step: PipelineStep;
+  offsetMs: number; // since the first event of the run
+  durationMs: number | null; // until the next event; null for the last one
+  hits?: number;
+  rawHits?: number;
+  passages?: number;
+  warning?: string;
+  error?: string;
+}
+
+export interface StageDuration {
+  label: string;
+  durationMs: number;
+}
+
+// Start/end event pairs summarised as stage totals
+const STAGES: { label: string; start: string; end: string }[] = [
+  { label: 'Embedding', start: 'embedding_start', end: 'embedding_done' },
+  { label: 'Search', start: 'search_start', end: 'search_results' },
+  { label: 'Generation', start: 'ai_start', end: 'ai_done' },
+];
+
+const asCount = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value.length;
+  return undefined;
+};
+
+export const buildTimeline = (steps: PipelineStep[]): TimelineEntry[] => {
+  const start = steps[0]?.ts ?? 0;
+  return steps.map((step, index) => {
+    const info = step.info || {};
+    const next = steps[index + 1];
+    return {
+      step,
+      offsetMs: step.ts - start,
+      durationMs: next ? next.ts - step.ts : null,
+      // search_results has reported its hits as `results` or `resultCount` in older server versions
+      hits: asCount(info.hits) ?? (step.type === 'search_results' ? asCount(info.results) ?? asCount(info.resultCount) : undefined),
+      rawHits: asCount(info.rawHits),
+      passages: asCount(info.passages),
+      warning: typeof info.warning === 'string' ? info.warning : undefined,
+      error: typeof info.error === 'string' ? info.error : undefined,
+    };
+  });
+};
+
+const stageDuration = (steps: PipelineStep[], start: string, end: string): number | undefined => {
+  const startStep = steps.find(s => s.type === start);
+  const endStep = startStep && steps.find(s => s.type === end && s.ts >= startStep.ts);
+  return startStep && endStep ? endStep.ts - startStep.ts : undefined;
+};
+
+export const getStageDurations = (steps: PipelineStep[]): StageDuration[] => {
+  const stages: StageDuration[] = [];
+  STAGES.forEach(stage => {
+    const durationMs = stageDuration(steps, stage.start, stage.end);
+    if (durationMs !== undefined) {
+      stages.push({ label: stage.label, durationMs });
+    }
+  });
+  if (steps.length > 1) {
+    stages.push({ label: 'Total', durationMs: steps[steps.length - 1].ts - steps[0].ts });
+  }
+  return stages;
+};
+
+export interface TokenStats {
+  count: number; // ai_token events received
+  firstTs: number | null; // server timestamp of the first one
+}
+
+// Returns null when no pipeline events were received (e.g. the socket was down)
+export const computeAnswerMetrics = (steps: PipelineStep[], tokens: TokenStats): AnswerMetrics | null => {
+  if (steps.length === 0) return null;
+
+  const start = steps[0].ts;
+  const done = steps.find(s => s.type === 'ai_done');
+  // Prefer the model's own token usage when the server reports it
+  const reportedTokens = done?.info?.tokenCount ?? done?.info?.tokens;
+
+  return {
+    embeddingMs: stageDuration(steps, 'embedding_start', 'embedding_done'),
+    searchMs: stageDuration(steps, 'search_start', 'search_results'),
+    timeToFirstTokenMs: tokens.firstTs !== null ? tokens.firstTs - start : undefined,
+    generationMs: stageDuration(steps, 'ai_start', 'ai_done'),
+    totalMs: done ? done.ts - start : undefined,
+    tokenCount: typeof reportedTokens === 'number' ? reportedTokens : tokens.count || undefined,
+  };
+};
+
+// Self-contained report to paste into a retrieval bug
+export const buildTraceJSON = (steps: PipelineStep[], request: SendMessageRequest | null): string =>
+  JSON.stringify({
+    capturedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    request,
+    stages: getStageDurations(steps),
+    events: steps,
+  }, null, 2);
+
+export const formatDuration = (ms: number) =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
@@ -0,0 +1,29 @@
+import { DEFAULT_RETURN_PATH, getReturnPath } from './returnPath';
+
+const from = (pathname: string, search = '', hash = '') => ({ from: { pathname, search, hash } });
+
+describe('getReturnPath', () => {
+  it('returns to the page that required login, with its query and hash', () => {
+    expect(getReturnPath(from('/chat/s1/m/m2', '?q=rates', '#top'))).toBe('/chat/s1/m/m2?q=rates#top');
+  });
+
+  it('falls back to the default without a usable state', () => {
+    expect(getReturnPath(undefined)).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(null)).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath({})).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath({ from: { pathname: 42 } })).toBe(DEFAULT_RETURN_PATH);
+  });
+
+  it('never leaves the app', () => {
+    expect(getReturnPath(from('https://evil.example/phish'))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(from('//evil.example/phish'))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(from('/\\evil.example/phish'))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(from(['javascript', 'alert(1)'].join(':')))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(from('chat'))).toBe(DEFAULT_RETURN_PATH);
+  });
+
+  it('never returns to the login or signup page', () => {
+    expect(getReturnPath(from('/login'))).toBe(DEFAULT_RETURN_PATH);
+    expect(getReturnPath(from('/signup', '?invite=1'))).toBe(DEFAULT_RETURN_PATH);
+  });
+});
@@ -0,0 +1,21 @@
+import { Location } from 'react-router-dom';
+
+export const DEFAULT_RETURN_PATH = '/chat';
+
+// Pages that must never be the destination after signing in
+const AUTH_PATHS = ['/login', '/signup'];
+
+export interface ReturnPathState {
+  from?: Pick<Location, 'pathname' | 'search' | 'hash'>;
+}
+
+// Where to go after login/signup: the page ProtectedRoute redirected from, if it is a safe in-app path
+export const getReturnPath = (state: unknown): string => {
+  const from = (state as ReturnPathState | null)?.from;
+  if (!from || typeof from.pathname !== 'string') return DEFAULT_RETURN_PATH;
+  // Only same-origin absolute paths; "//host" (or "/\host", as browsers read "\" as "/") would be
+  // treated as a protocol-relative URL
+  if (!/^\/(?![/\\])/.test(from.pathname)) return DEFAULT_RETURN_PATH;
+  if (AUTH_PATHS.indexOf(from.pathname) !== -1) return DEFAULT_RETURN_PATH;
+  return `${from.pathname}${from.search || ''}${from.hash || ''}`;
+};
@@ -0,0 +1,8 @@
+import { SearchScope } from '../types';
+
+export const isScopeActive = (scope?: SearchScope | null): scope is SearchScope =>
+  !!scope && (scope.sources.length > 0 || scope.documents.length > 0);
+
+// An empty selection is stored as null so "everything" has a single representation
+export const normalizeScope = (scope: SearchScope): SearchScope | null =>
+  isScopeActive(scope) ? scope : null;
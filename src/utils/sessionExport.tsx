@@ -0,0 +1,164 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChatMessage, ChatSession } from '../types';
+import { parseCitationHref, remarkCitations, replaceCitationMarkers } from './citations';
+import { isWebUrl } from './passages';
+
+export type ExportFormat = 'markdown' | 'pdf' | 'json';
+
+const getTitle = (session: ChatSession) =>
+  session.title || `Chat from ${new Date(session.createdAt).toLocaleDateString()}`;
+
+const formatTimestamp = (date: Date) => new Date(date).toLocaleString();
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const getExportFilename = (session: ChatSession, extension: string) => {
+  const slug = getTitle(session)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'chat';
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug}-${date}.${extension}`;
+};
+
+// Markdown: citations become footnotes pointing at the answer's context passages
+export const exportSessionMarkdown = (session: ChatSession, messages: ChatMessage[]): string => {
+  const lines: string[] = [
+    `# ${getTitle(session)}`,
+    '',
+    `_Created ${formatTimestamp(session.createdAt)} · exported ${formatTimestamp(new Date())}_`,
+    '',
+  ];
+
+  messages.forEach((message, messageIndex) => {
+    const passages = message.contextPassages || [];
+    const footnoteId = (n: number) => `m${messageIndex + 1}-${n}`;
+
+    lines.push(`**${message.role === 'user' ? 'You' : 'Assistant'}** · ${formatTimestamp(message.createdAt)}`, '');
+    lines.push(
+      message.role === 'assistant'
+        ? replaceCitationMarkers(message.content, passages.length, numbers => numbers.map(n => `[^${footnoteId(n)}]`).join(''))
+        : message.content
+    );
+    lines.push('');
+
+    passages.forEach((passage, index) => {
+      const label = isWebUrl(passage.url) ? `[${passage.title}](${passage.url})` : passage.title;
+      lines.push(`[^${footnoteId(index + 1)}]: ${label} — ${passage.source}`);
+    });
+    if (passages.length > 0) lines.push('');
+
+    lines.push('---', '');
+  });
+
+  return lines.join('\n');
+};
+
+const renderMessageHtml = (message: ChatMessage, messageIndex: number): string => {
+  const passages = message.contextPassages || [];
+  const anchor = (n: number) => `m${messageIndex + 1}-source-${n}`;
+
+  const body = message.role === 'assistant'
+    ? renderToStaticMarkup(
+        <Markdown
+          remarkPlugins={[remarkGfm, [remarkCitations, { passageCount: passages.length }]]}
+          components={{
+            a: ({ node, children, ...props }) => {
+              const citation = parseCitationHref(props.href);
+              return citation !== null
+                ? <sup><a href={`#${anchor(citation)}`}>{citation}</a></sup>
+                : isWebUrl(props.href) ? <a {...props}>{children}</a> : <>{children}</>;
+            },
+          }}
+        >
+          {message.content}
+        </Markdown>
+      )
+    : `<p class="user-text">${escapeHtml(message.content)}</p>`;
+
+  const sources = passages.length === 0 ? '' : `
+    <ol class="sources">
+      ${passages.map((passage, index) => `
+        <li id="${anchor(index + 1)}">
+          ${isWebUrl(passage.url) ? `<a href="${escapeHtml(passage.url)}">${escapeHtml(passage.title)}</a>` : escapeHtml(passage.title)}
+          <span class="source">— ${escapeHtml(passage.source)}</span>
+        </li>`).join('')}
+    </ol>`;
+
+  return `
+    <section class="message ${message.role}">
+      <header>${message.role === 'user' ? 'You' : 'Assistant'} · ${escapeHtml(formatTimestamp(message.createdAt))}</header>
+      ${body}
+      ${sources}
+    </section>`;
+};
+
+// Standalone, print-friendly page; the browser's print dialog saves it as PDF
+export const buildPrintableHtml = (session: ChatSession, messages: ChatMessage[]): string => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src https: data:" />
+  <title>${escapeHtml(getTitle(session))}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 760px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; font-size: 14px; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    .meta { color: #6b7280; font-size: 12px; margin-bottom: 2rem; }
+    .message { border-top: 1px solid #e5e7eb; padding: 1rem 0; page-break-inside: avoid; }
+    .message header { font-size: 12px; font-weight: 600; color: #6b7280; margin-bottom: 0.5rem; }
+    .message.user .user-text { white-space: pre-wrap; font-weight: 500; }
+    pre { background: #f3f4f6; padding: 0.75rem; border-radius: 4px; overflow-x: auto; white-space: pre-wrap; }
+    code { font-family: Menlo, Monaco, monospace; font-size: 12px; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; }
+    sup a { text-decoration: none; color: #0284c7; }
+    .sources { font-size: 12px; color: #374151; margin-top: 0.75rem; }
+    .sources .source { color: #6b7280; }
+    @media print { body { margin: 0; } a { color: inherit; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(getTitle(session))}</h1>
+  <div class="meta">Created ${escapeHtml(formatTimestamp(session.createdAt))} · exported ${escapeHtml(formatTimestamp(new Date()))}</div>
+  ${messages.map(renderMessageHtml).join('')}
+</body>
+</html>`;
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously and fail if the URL is already gone
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Returns false when the browser blocked the popup. The page is loaded from a Blob URL rather than
+// written into the window, and its CSP forbids scripts, so nothing in the exported content can run.
+export const openPrintView = (html: string): boolean => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const printWindow = window.open(url, '_blank');
+  if (!printWindow) {
+    URL.revokeObjectURL(url);
+    return false;
+  }
+  printWindow.addEventListener('load', () => {
+    printWindow.focus();
+    printWindow.print();
+    URL.revokeObjectURL(url);
+  });
+  return true;
+};
@@ -0,0 +1,23 @@
+import { ChatSession } from '../types';
+
+// Envelope written by the JSON export; the import checks these two fields
+export const SESSION_EXPORT_FORMAT = 'voosh-chat-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: ChatSession;
+}
+
+// Lossless dump of the session as returned by the API, every branch included
+export const exportSessionJSON = (session: ChatSession): string => {
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(file, null, 2);
+};
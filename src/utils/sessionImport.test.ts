@@ -0,0 +1,220 @@
+import { ChatSession } from '../types';
+import { exportSessionJSON, SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION } from './sessionFile';
+import { parseSessionImport } from './sessionImport';
+
+const message = (id: string, parentId: string | null | undefined, extra: Record<string, unknown> = {}) => ({
+  id,
+  role: 'user',
+  content: `content of ${id}`,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  parentId,
+  ...extra,
+});
+
+const envelope = (session: Record<string, unknown>, overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: '2024-05-02T00:00:00.000Z',
+    session,
+    ...overrides,
+  });
+
+describe('parseSessionImport', () => {
+  describe('malformed files', () => {
+    it('rejects text that is not JSON', () => {
+      expect(parseSessionImport('{ not json')).toEqual({
+        request: null,
+        error: 'The file is not valid JSON',
+        skipped: [],
+      });
+    });
+
+    it('rejects JSON that is not an object', () => {
+      expect(parseSessionImport('[1, 2]').error).toBe('The file does not contain a chat session');
+    });
+
+    it('rejects an envelope without a session', () => {
+      expect(parseSessionImport(envelope(undefined as any)).error).toBe('The file does not contain a chat session');
+    });
+
+    it('rejects a session without a messages list', () => {
+      expect(parseSessionImport(envelope({ title: 'x', messages: 'none' })).error).toBe('The session has no messages list');
+    });
+
+    it('rejects an unknown export format', () => {
+      const result = parseSessionImport(envelope({ messages: [] }, { format: 'other-app' }));
+      expect(result.error).toBe('Unknown export format "other-app"');
+    });
+
+    it('rejects a newer export version', () => {
+      const result = parseSessionImport(envelope({ messages: [] }, { version: SESSION_EXPORT_VERSION + 1 }));
+      expect(result.error).toBe(`Export version ${SESSION_EXPORT_VERSION + 1} is not supported`);
+    });
+
+    it('rejects a missing export version', () => {
+      const result = parseSessionImport(envelope({ messages: [] }, { version: undefined }));
+      expect(result.error).toBe('Export version undefined is not supported');
+    });
+
+    it('fails when no message is valid', () => {
+      const result = parseSessionImport(envelope({ messages: [{ id: 'm1', role: 'system' }] }));
+      expect(result.error).toBe('The session has no valid messages to import');
+      expect(result.skipped).toEqual(['Message 1 (m1) has unknown role "system"']);
+    });
+  });
+
+  describe('message tree', () => {
+    it('accepts a bare session as returned by the API', () => {
+      const result = parseSessionImport(JSON.stringify({ title: ' Bare ', messages: [message('m1', null)] }));
+      expect(result.error).toBeNull();
+      expect(result.request?.title).toBe('Bare');
+      expect(result.request?.messages.map(m => m.id)).toEqual(['m1']);
+    });
+
+    it('skips a message whose parent is not in the file', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('m1', null), message('m2', 'm1'), message('m3', 'missing')],
+      }));
+      expect(result.request?.messages.map(m => m.id)).toEqual(['m1', 'm2']);
+      expect(result.skipped).toEqual(['Message 3 (m3) follows a message that is missing or was skipped']);
+    });
+
+    it('skips the descendants of a skipped message', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('m1', null), { ...message('m2', 'm1'), content: 42 }, message('m3', 'm2'), message('m4', 'm3')],
+      }));
+      expect(result.request?.messages.map(m => m.id)).toEqual(['m1']);
+      expect(result.skipped).toEqual([
+        'Message 2 (m2) has no content',
+        'Message 3 (m3) follows a message that is missing or was skipped',
+        'Message 4 (m4) follows a message that is missing or was skipped',
+      ]);
+    });
+
+    it('orders children after their parents whatever the file order', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('m3', 'm2'), message('m2', 'm1'), message('m1', null), message('m5', 'm2')],
+      }));
+      expect(result.request?.messages.map(m => m.id)).toEqual(['m1', 'm2', 'm3', 'm5']);
+      expect(result.skipped).toEqual([]);
+    });
+
+    it('skips messages whose parents form a cycle', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('m1', null), message('m2', 'm3'), message('m3', 'm2')],
+      }));
+      expect(result.request?.messages.map(m => m.id)).toEqual(['m1']);
+      expect(result.skipped).toHaveLength(2);
+    });
+
+    it('keeps every root of a session whose first question was edited', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('q1', null), message('a1', 'q1'), message('q1b', null), message('a1b', 'q1b')],
+      }));
+      expect(result.request?.messages.map(m => [m.id, m.parentId])).toEqual([
+        ['q1', null],
+        ['a1', 'q1'],
+        ['q1b', null],
+        ['a1b', 'q1b'],
+      ]);
+    });
+
+    it('chains messages from before branching in file order', () => {
+      const result = parseSessionImport(envelope({
+        messages: [message('m1', undefined), message('m2', undefined), message('m3', undefined)],
+      }));
+      expect(result.request?.messages.map(m => m.parentId)).toEqual([null, 'm1', 'm2']);
+    });
+
+    it('skips repeated ids', () => {
+      const result = parseSessionImport(envelope({ messages: [message('m1', null), message('m1', null)] }));
+      expect(result.request?.messages).toHaveLength(1);
+      expect(result.skipped).toEqual(['Message 2 (m1) repeats an earlier message id']);
+    });
+  });
+
+  describe('round trip', () => {
+    const session: ChatSession = {
+      id: 's1',
+      title: 'Markets',
+      scope: { sources: ['Reuters'], documents: [{ id: 'd1', title: 'Annual report' }] },
+      settings: { topK: 8, minScore: 0.4, answerLength: 'short', model: 'large' },
+      dateRange: { preset: '30d' },
+      createdAt: new Date('2024-05-01T09:00:00.000Z'),
+      updatedAt: new Date('2024-05-01T11:00:00.000Z'),
+      messages: [
+        {
+          id: 'm1',
+          role: 'user',
+          content: 'What happened?',
+          createdAt: new Date('2024-05-01T10:00:00.000Z'),
+          parentId: null,
+        },
+        {
+          id: 'm2',
+          role: 'assistant',
+          content: 'Stocks fell [1].',
+          createdAt: new Date('2024-05-01T10:00:05.000Z'),
+          parentId: 'm1',
+          status: 'stopped',
+          contextPassages: [{
+            title: 'Markets slide',
+            source: 'Reuters',
+            url: 'https://example.com/a',
+            score: 0.9,
+            publishedAt: new Date('2024-04-30T08:00:00.000Z'),
+          }],
+          feedback: { rating: 'down', reason: 'Too short', irrelevantPassages: ['https://example.com/a'] },
+          metrics: { searchMs: 120, totalMs: 2400, tokenCount: 85 },
+          dateRange: { preset: '7d', from: '2024-04-24T10:00:00.000Z', to: '2024-05-01T10:00:00.000Z' },
+        },
+      ],
+    };
+
+    it('keeps every field the JSON export writes', () => {
+      const result = parseSessionImport(exportSessionJSON(session));
+
+      expect(result.skipped).toEqual([]);
+      expect(result.request).toEqual({
+        title: 'Markets',
+        createdAt: session.createdAt,
+        scope: session.scope,
+        settings: session.settings,
+        dateRange: session.dateRange,
+        messages: [
+          session.messages![0],
+          session.messages![1],
+        ],
+      });
+    });
+
+    it('drops malformed optional fields but keeps the message', () => {
+      const result = parseSessionImport(envelope({
+        scope: { sources: 'Reuters' },
+        messages: [message('m1', null, { metrics: { totalMs: 'slow' }, feedback: { rating: 'meh' } })],
+      }));
+
+      expect(result.request?.messages[0]).not.toHaveProperty('metrics');
+      expect(result.request?.messages[0]).not.toHaveProperty('feedback');
+      expect(result.request).not.toHaveProperty('scope');
+      expect(result.skipped).toEqual([
+        'Message 1 (m1) has invalid feedback, which was left out',
+        'Message 1 (m1) has invalid metrics, which was left out',
+        'The session has invalid scope, which was left out',
+      ]);
+    });
+
+    it('keeps only web links as passage urls', () => {
+      const passage = (url: string) => ({ title: 'Report', source: 'Reuters', url });
+      const result = parseSessionImport(envelope({
+        messages: [message('m1', null, {
+          contextPassages: [passage('https://example.com/a'), passage(['javascript', 'alert(1)'].join(':'))],
+        })],
+      }));
+
+      expect(result.request?.messages[0].contextPassages?.map(p => p.url)).toEqual(['https://example.com/a', '']);
+      expect(result.skipped).toEqual(['Message 1 (m1), source 2 has a url that is not a web link, which was left out']);
+    });
+  });
+});
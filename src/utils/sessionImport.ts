@@ -0,0 +1,271 @@
+import {
+  AnswerMetrics,
+  ChatMessage,
+  ContextPassage,
+  DateRange,
+  ImportChatSessionRequest,
+  MessageFeedback,
+  RetrievalSettings,
+  SearchScope,
+} from '../types';
+import { normalizeMessageTree } from './messageTree';
+import { isWebUrl } from './passages';
+import { SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION } from './sessionFile';
+
+export interface SessionImportResult {
+  request: ImportChatSessionRequest | null; // null when nothing in the file can be imported
+  error: string | null; // why the file as a whole can't be imported
+  skipped: string[]; // malformed messages, passages or fields left out of the import
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown) =>
+  (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+
+const isNumber = (value: unknown) => typeof value === 'number' && !isNaN(value);
+
+const isString = (value: unknown) => typeof value === 'string';
+
+// Returns a reason when the value doesn't match ContextPassage, otherwise null
+const validatePassage = (value: unknown): string | null => {
+  if (!isObject(value)) return 'is not an object';
+  if (typeof value.title !== 'string') return 'has no title';
+  if (typeof value.source !== 'string') return 'has no source';
+  if (value.url !== undefined && typeof value.url !== 'string') return 'has an invalid url';
+  if (value.score !== undefined && typeof value.score !== 'number') return 'has an invalid score';
+  return null;
+};
+
+const toPassage = (value: Record<string, any>): ContextPassage => ({
+  id: typeof value.id === 'string' ? value.id : undefined,
+  title: value.title,
+  source: value.source,
+  url: value.url || '',
+  score: value.score,
+  excerpt: typeof value.excerpt === 'string' ? value.excerpt : undefined,
+  matchedTerms: Array.isArray(value.matchedTerms)
+    ? value.matchedTerms.filter((term: unknown) => typeof term === 'string')
+    : undefined,
+  publishedAt: isValidDate(value.publishedAt) ? new Date(value.publishedAt) : undefined,
+});
+
+// Parsers for the optional fields the export writes; each returns null when the value is malformed
+
+const parseFeedback = (value: unknown): MessageFeedback | null => {
+  if (!isObject(value)) return null;
+  if (!isOptional(value.rating, rating => rating === 'up' || rating === 'down')) return null;
+  if (!isOptional(value.reason, isString)) return null;
+  if (!isOptional(value.irrelevantPassages, list => Array.isArray(list) && list.every(isString))) return null;
+  return {
+    rating: value.rating ?? undefined,
+    reason: value.reason ?? undefined,
+    irrelevantPassages: value.irrelevantPassages ?? undefined,
+  };
+};
+
+const METRIC_KEYS: (keyof AnswerMetrics)[] = [
+  'embeddingMs',
+  'searchMs',
+  'timeToFirstTokenMs',
+  'generationMs',
+  'totalMs',
+  'tokenCount',
+];
+
+const parseMetrics = (value: unknown): AnswerMetrics | null => {
+  if (!isObject(value) || !METRIC_KEYS.every(key => isOptional(value[key], isNumber))) return null;
+  const metrics: AnswerMetrics = {};
+  METRIC_KEYS.forEach(key => {
+    if (isNumber(value[key])) metrics[key] = value[key];
+  });
+  return metrics;
+};
+
+const parseDateRange = (value: unknown): DateRange | null => {
+  if (!isObject(value) || !['24h', '7d', '30d', 'custom'].includes(value.preset)) return null;
+  if (!isOptional(value.from, isValidDate) || !isOptional(value.to, isValidDate)) return null;
+  return { preset: value.preset, from: value.from ?? undefined, to: value.to ?? undefined };
+};
+
+const parseScope = (value: unknown): SearchScope | null => {
+  if (!isObject(value) || !Array.isArray(value.sources) || !Array.isArray(value.documents)) return null;
+  if (!value.sources.every(isString)) return null;
+  if (!value.documents.every((doc: unknown) => isObject(doc) && isString(doc.id) && isString(doc.title))) return null;
+  return {
+    sources: value.sources,
+    documents: value.documents.map((doc: Record<string, any>) => ({ id: doc.id, title: doc.title })),
+  };
+};
+
+const parseSettings = (value: unknown): RetrievalSettings | null => {
+  if (!isObject(value)) return null;
+  if (!isOptional(value.topK, isNumber) || !isOptional(value.minScore, isNumber)) return null;
+  if (!isOptional(value.answerLength, length => ['short', 'medium', 'long'].includes(length as string))) return null;
+  if (!isOptional(value.model, isString)) return null;
+  const settings: RetrievalSettings = {};
+  if (isNumber(value.topK)) settings.topK = value.topK;
+  if (isNumber(value.minScore)) settings.minScore = value.minScore;
+  if (value.answerLength) settings.answerLength = value.answerLength;
+  if (value.model) settings.model = value.model;
+  return settings;
+};
+
+// Returns a reason when the value doesn't match ChatMessage, otherwise null
+const validateMessage = (value: unknown): string | null => {
+  if (!isObject(value)) return 'is not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'has no id';
+  if (value.role !== 'user' && value.role !== 'assistant') return `has unknown role "${String(value.role)}"`;
+  if (typeof value.content !== 'string') return 'has no content';
+  if (!isValidDate(value.createdAt)) return 'has an invalid createdAt date';
+  if (value.parentId !== undefined && value.parentId !== null && typeof value.parentId !== 'string') {
+    return 'has an invalid parentId';
+  }
+  if (value.contextPassages !== undefined && !Array.isArray(value.contextPassages)) {
+    return 'has contextPassages that is not a list';
+  }
+  return null;
+};
+
+const describeMessage = (index: number, value: unknown) =>
+  isObject(value) && typeof value.id === 'string' ? `Message ${index + 1} (${value.id})` : `Message ${index + 1}`;
+
+// Accepts either the export envelope or a bare ChatSession as returned by the API
+export const parseSessionImport = (text: string): SessionImportResult => {
+  const skipped: string[] = [];
+  const fail = (error: string): SessionImportResult => ({ request: null, error, skipped });
+
+  // Absent fields stay absent; malformed ones are dropped with a note instead of failing the message
+  const optionalField = <T>(label: string, field: string, value: unknown, parse: (value: unknown) => T | null) => {
+    if (value === undefined || value === null) return undefined;
+    const parsed = parse(value);
+    if (parsed === null) skipped.push(`${label} has invalid ${field}, which was left out`);
+    return parsed ?? undefined;
+  };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('The file is not valid JSON');
+  }
+  if (!isObject(data)) return fail('The file does not contain a chat session');
+
+  let session: unknown = data;
+  if (data.format !== undefined) {
+    if (data.format !== SESSION_EXPORT_FORMAT) return fail(`Unknown export format "${String(data.format)}"`);
+    if (typeof data.version !== 'number' || data.version > SESSION_EXPORT_VERSION) {
+      return fail(`Export version ${String(data.version)} is not supported`);
+    }
+    session = data.session;
+  }
+
+  if (!isObject(session)) return fail('The file does not contain a chat session');
+  if (!Array.isArray(session.messages)) return fail('The session has no messages list');
+  if (session.title !== undefined && typeof session.title !== 'string') {
+    skipped.push('The session title is not text and was ignored');
+  }
+
+  // First pass: every well-formed message with a unique id, in file order
+  const candidates = new Map<string, { label: string; message: ChatMessage }>();
+  session.messages.forEach((value: unknown, index: number) => {
+    const label = describeMessage(index, value);
+    const problem = validateMessage(value);
+    if (problem) {
+      skipped.push(`${label} ${problem}`);
+      return;
+    }
+
+    const raw = value as Record<string, any>;
+    if (candidates.has(raw.id)) {
+      skipped.push(`${label} repeats an earlier message id`);
+      return;
+    }
+
+    const contextPassages: ContextPassage[] = [];
+    (raw.contextPassages || []).forEach((passage: unknown, passageIndex: number) => {
+      const passageProblem = validatePassage(passage);
+      if (passageProblem) {
+        skipped.push(`${label}, source ${passageIndex + 1} ${passageProblem}`);
+        return;
+      }
+      const imported = toPassage(passage as Record<string, any>);
+      if (imported.url && !isWebUrl(imported.url)) {
+        skipped.push(`${label}, source ${passageIndex + 1} has a url that is not a web link, which was left out`);
+        imported.url = '';
+      }
+      contextPassages.push(imported);
+    });
+
+    const message: ChatMessage = {
+      id: raw.id,
+      role: raw.role as ChatMessage['role'],
+      content: raw.content,
+      createdAt: new Date(raw.createdAt),
+      parentId: raw.parentId, // null for a root; missing only on messages from before branching
+    };
+    if (contextPassages.length > 0) message.contextPassages = contextPassages;
+    // Only a stopped answer is meaningful outside the tab that streamed it
+    if (raw.status === 'stopped') message.status = 'stopped';
+    const feedback = optionalField(label, 'feedback', raw.feedback, parseFeedback);
+    if (feedback) message.feedback = feedback;
+    const metrics = optionalField(label, 'metrics', raw.metrics, parseMetrics);
+    if (metrics) message.metrics = metrics;
+    const dateRange = optionalField(label, 'dateRange', raw.dateRange, parseDateRange);
+    if (dateRange) message.dateRange = dateRange;
+
+    candidates.set(raw.id, { label, message });
+  });
+
+  // Messages from before branching have no parentId and follow the previous one, as when loading a session
+  normalizeMessageTree(Array.from(candidates.values(), candidate => candidate.message)).forEach(message => {
+    candidates.get(message.id)!.message = message;
+  });
+
+  // Second pass: parents before children whatever the file order, dropping messages whose chain of
+  // parents doesn't reach the start of the conversation (missing, skipped or circular)
+  const messages: ChatMessage[] = [];
+  const placed = new Set<string>();
+  const orphaned = new Set<string>();
+  const place = (id: string, visiting: Set<string>): boolean => {
+    if (placed.has(id)) return true;
+    const candidate = candidates.get(id);
+    if (!candidate || orphaned.has(id) || visiting.has(id)) return false;
+
+    const { parentId } = candidate.message;
+    visiting.add(id);
+    const parentPlaced = !parentId || place(parentId, visiting);
+    visiting.delete(id);
+    if (!parentPlaced) {
+      orphaned.add(id);
+      skipped.push(`${candidate.label} follows a message that is missing or was skipped`);
+      return false;
+    }
+    messages.push(candidate.message);
+    placed.add(id);
+    return true;
+  };
+  candidates.forEach((_, id) => {
+    place(id, new Set());
+  });
+
+  if (messages.length === 0) return fail('The session has no valid messages to import');
+
+  const request: ImportChatSessionRequest = {
+    title: typeof session.title === 'string' && session.title.trim() ? session.title.trim() : undefined,
+    createdAt: isValidDate(session.createdAt) ? new Date(session.createdAt) : undefined,
+    messages,
+  };
+  const scope = optionalField('The session', 'scope', session.scope, parseScope);
+  if (scope) request.scope = scope;
+  const settings = optionalField('The session', 'settings', session.settings, parseSettings);
+  if (settings) request.settings = settings;
+  const dateRange = optionalField('The session', 'dateRange', session.dateRange, parseDateRange);
+  if (dateRange) request.dateRange = dateRange;
+
+  return { request, error: null, skipped };
+};
@@ -0,0 +1,32 @@
+import { deriveSessionTitle } from './sessionTitle';
+
+describe('deriveSessionTitle', () => {
+  it('uses the first sentence without its punctuation', () => {
+    expect(deriveSessionTitle('what moved oil prices today? Also, gold.')).toBe('What moved oil prices today');
+  });
+
+  it('collapses whitespace', () => {
+    expect(deriveSessionTitle('  latest\n\n  rate   decision ')).toBe('Latest rate decision');
+  });
+
+  it('ends the first sentence only at punctuation followed by a space', () => {
+    expect(deriveSessionTitle('Summarise the U.S.A. jobs report')).toBe('Summarise the U.S.A');
+    expect(deriveSessionTitle('news about node.js')).toBe('News about node.js');
+  });
+
+  it('cuts long questions at a word boundary', () => {
+    const title = deriveSessionTitle(
+      'Give me a detailed overview of everything that happened in European energy markets this week'
+    );
+    expect(title).toBe('Give me a detailed overview of everything that happened in...');
+  });
+
+  it('cuts mid-word when there is no space late enough', () => {
+    const title = deriveSessionTitle(`Explain ${'x'.repeat(80)}`);
+    expect(title).toBe(`Explain ${'x'.repeat(52)}...`);
+  });
+
+  it('is empty for blank input', () => {
+    expect(deriveSessionTitle('   ')).toBe('');
+  });
+});
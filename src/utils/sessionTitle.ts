@@ -0,0 +1,17 @@
+const MAX_TITLE_LENGTH = 60;
+
+// Client-side fallback title: the first sentence of the opening question, cut at a word boundary
+export const deriveSessionTitle = (question: string): string => {
+  const normalized = question.replace(/\s+/g, ' ').trim();
+  const sentenceMatch = normalized.match(/^.+?[.?!](?=\s|$)/);
+  const firstSentence = (sentenceMatch ? sentenceMatch[0] : normalized).replace(/[.?!]+$/, '');
+
+  if (firstSentence.length <= MAX_TITLE_LENGTH) {
+    return firstSentence.charAt(0).toUpperCase() + firstSentence.slice(1);
+  }
+
+  const cut = firstSentence.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  const title = lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${title.charAt(0).toUpperCase()}${title.slice(1)}...`;
+};